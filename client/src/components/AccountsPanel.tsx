@@ -0,0 +1,82 @@
+/**
+ * AccountsPanel
+ *
+ * Account view: statements grouped by account, with each account's
+ * merged transaction count and period, and whether the balances carry
+ * over from one statement to the next. Shown when at least one account
+ * has more than one statement.
+ */
+
+import { Layers } from 'lucide-react';
+import type { AccountBoundary, AccountGroup } from '@/lib/accounts';
+
+interface AccountsPanelProps {
+  groups: AccountGroup[];
+  getAccountName: (group: AccountGroup) => string;
+}
+
+const fmt = (n: number) => n.toLocaleString('en-AE', { minimumFractionDigits: 2 });
+
+function BoundaryStatus({ boundary }: { boundary: AccountBoundary }) {
+  const label = `${boundary.fromFile} → ${boundary.toFile}`;
+  if (boundary.status === 'ok') {
+    return (
+      <p className="text-credit truncate" title={label}>
+        ✓ Balance carries over{boundary.overlap ? ' (overlapping periods)' : ''} &middot; {label}
+      </p>
+    );
+  }
+  if (boundary.status === 'mismatch') {
+    return (
+      <p className="text-debit truncate" title={label}>
+        Opening balance {fmt(boundary.opening!)} differs from {fmt(boundary.expected!)} by {fmt(boundary.difference!)}
+        {' '}&middot; a statement may be missing &middot; {label}
+      </p>
+    );
+  }
+  return (
+    <p className="text-muted-foreground truncate" title={label}>
+      No balances to compare &middot; {label}
+    </p>
+  );
+}
+
+export default function AccountsPanel({ groups, getAccountName }: AccountsPanelProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-baseline justify-between gap-3">
+        <h2 className="text-sm font-semibold flex items-center gap-2">
+          <Layers className="w-3.5 h-3.5" />
+          Accounts ({groups.length})
+        </h2>
+        <p className="text-xs text-muted-foreground font-mono">
+          {groups.reduce((sum, g) => sum + g.sources.length, 0)} statements
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {groups.map(group => (
+          <div key={group.accountKey} className="border border-dashed border-border rounded-md p-2 space-y-1 text-xs font-mono">
+            <div className="flex items-center gap-3">
+              <span className="flex-1 min-w-0 truncate font-sans font-medium" title={group.accountKey}>
+                {getAccountName(group)}
+              </span>
+              {group.firstDate && (
+                <span className="text-muted-foreground shrink-0">{group.firstDate} – {group.lastDate}</span>
+              )}
+              <span className="w-28 text-right shrink-0">
+                {group.transactions.length} transactions
+              </span>
+            </div>
+            <p className="text-muted-foreground truncate" title={group.sources.map(s => s.fileName).join(', ')}>
+              {group.sources.length} {group.sources.length === 1 ? 'statement' : 'statements'}: {group.sources.map(s => s.fileName).join(', ')}
+            </p>
+            {group.boundaries.map(boundary => (
+              <BoundaryStatus key={`${boundary.fromFile}-${boundary.toFile}`} boundary={boundary} />
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+/**
+ * ColumnMappingDialog
+ *
+ * Wizard for CSV and spreadsheet exports no bank parser recognises:
+ * previews the first rows of the file and lets the user point at the
+ * header row, date, description and amount columns. The resulting
+ * transactions are previewed live, and the mapping can be remembered
+ * for the next file with the same headers.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Columns3, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { readRows } from '@/lib/parsers';
+import {
+  applyColumnMapping,
+  DATE_FORMATS,
+  guessColumnMapping,
+  mappingProblems,
+  type AmountMapping,
+  type ColumnMapping,
+  type DateFormat,
+} from '@/lib/parsers/column-mapping';
+
+const PREVIEW_ROWS = 8;
+const HEADER_ROW_CHOICES = 20;
+
+interface ColumnMappingDialogProps {
+  file: File | null;
+  onOpenChange: (open: boolean) => void;
+  onApply: (mapping: ColumnMapping, headers: string[], remember: boolean) => void;
+}
+
+function fmt(n: number): string {
+  return n.toLocaleString('en-AE', { minimumFractionDigits: 2 });
+}
+
+export default function ColumnMappingDialog({ file, onOpenChange, onApply }: ColumnMappingDialogProps) {
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [remember, setRemember] = useState(true);
+
+  // Read the file afresh every time the wizard opens
+  useEffect(() => {
+    setRows(null);
+    setMapping(null);
+    setReadError(null);
+    if (!file) return;
+    let current = true;
+    readRows(file).then(
+      all => {
+        if (!current) return;
+        setRows(all);
+        setMapping(guessColumnMapping(all));
+      },
+      err => current && setReadError(err.message || 'Could not read the file')
+    );
+    return () => { current = false; };
+  }, [file]);
+
+  const headers = rows && mapping ? rows[mapping.headerRow] ?? [] : [];
+  const columnCount = rows ? Math.max(0, ...rows.slice(0, HEADER_ROW_CHOICES + PREVIEW_ROWS).map(r => r.length)) : 0;
+  const columns = Array.from({ length: columnCount }, (_, i) => ({
+    value: String(i),
+    label: headers[i] || `Column ${i + 1}`,
+  }));
+
+  const problems = mapping ? mappingProblems(mapping) : [];
+  const preview = useMemo(() => {
+    if (!rows || !mapping || mappingProblems(mapping).length > 0) return null;
+    return applyColumnMapping(rows, mapping);
+  }, [rows, mapping]);
+
+  const update = (patch: Partial<ColumnMapping>) => setMapping(prev => (prev ? { ...prev, ...patch } : prev));
+  const updateAmount = (patch: Partial<AmountMapping>) =>
+    setMapping(prev => (prev ? { ...prev, amount: { ...prev.amount, ...patch } as AmountMapping } : prev));
+
+  const toggleDescription = (column: number, checked: boolean) => {
+    if (!mapping) return;
+    update({
+      descriptionColumns: checked
+        ? [...mapping.descriptionColumns, column].sort((a, b) => a - b)
+        : mapping.descriptionColumns.filter(c => c !== column),
+    });
+  };
+
+  const columnSelect = (value: number, onChange: (column: number) => void, placeholder: string) => (
+    <Select value={value >= 0 ? String(value) : ''} onValueChange={v => onChange(Number(v))}>
+      <SelectTrigger size="sm" className="w-44">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {columns.map(c => (
+          <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const mappedColumns = new Set(
+    mapping
+      ? [
+          mapping.dateColumn,
+          ...mapping.descriptionColumns,
+          ...(mapping.amount.kind === 'signed'
+            ? [mapping.amount.column]
+            : [mapping.amount.debitColumn, mapping.amount.creditColumn]),
+        ]
+      : []
+  );
+
+  return (
+    <Dialog open={file !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <Columns3 className="w-4 h-4" />
+            Map columns
+          </DialogTitle>
+          <DialogDescription className="font-mono text-xs break-all">
+            {file?.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        {readError && <p className="text-xs text-destructive">{readError}</p>}
+
+        {!rows && !readError && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {rows && mapping && (
+          <div className="space-y-4">
+            {/* First rows of the file, header row and mapped columns highlighted */}
+            <div className="overflow-x-auto border border-border rounded-md">
+              <table className="w-full text-xs font-mono">
+                <tbody>
+                  {rows.slice(0, mapping.headerRow + 1 + PREVIEW_ROWS).map((row, r) => (
+                    <tr
+                      key={r}
+                      className={`border-t border-border/40 first:border-t-0 ${
+                        r === mapping.headerRow ? 'bg-muted font-medium' : r < mapping.headerRow ? 'opacity-40' : ''
+                      }`}
+                    >
+                      <td className="py-1 px-2 text-muted-foreground text-right">{r + 1}</td>
+                      {Array.from({ length: columnCount }, (_, c) => (
+                        <td
+                          key={c}
+                          className={`py-1 px-2 whitespace-nowrap max-w-[180px] truncate ${
+                            mappedColumns.has(c) && r > mapping.headerRow ? 'text-foreground' : 'text-muted-foreground'
+                          }`}
+                        >
+                          {row[c] ?? ''}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid sm:grid-cols-2 gap-x-6 gap-y-3 text-xs">
+              <div className="flex items-center justify-between gap-2">
+                <Label className="text-xs font-normal">Header row</Label>
+                <Select value={String(mapping.headerRow)} onValueChange={v => update({ headerRow: Number(v) })}>
+                  <SelectTrigger size="sm" className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {rows.slice(0, HEADER_ROW_CHOICES).map((row, r) => (
+                      <SelectItem key={r} value={String(r)}>
+                        Row {r + 1}{row[0] ? ` · ${row[0]}` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between gap-2">
+                <Label className="text-xs font-normal">Bank name</Label>
+                <Input
+                  value={mapping.bankName}
+                  onChange={e => update({ bankName: e.target.value })}
+                  placeholder="Custom"
+                  className="h-8 w-44 text-xs"
+                />
+              </div>
+
+              <div className="flex items-center justify-between gap-2">
+                <Label className="text-xs font-normal">Date column</Label>
+                {columnSelect(mapping.dateColumn, dateColumn => update({ dateColumn }), 'Choose column')}
+              </div>
+
+              <div className="flex items-center justify-between gap-2">
+                <Label className="text-xs font-normal">Date format</Label>
+                <Select value={mapping.dateFormat} onValueChange={v => update({ dateFormat: v as DateFormat })}>
+                  <SelectTrigger size="sm" className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMATS.map(format => (
+                      <SelectItem key={format} value={format}>{format}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between gap-2">
+                <Label className="text-xs font-normal">Amount</Label>
+                <Select
+                  value={mapping.amount.kind}
+                  onValueChange={kind => update({
+                    amount: kind === 'signed'
+                      ? { kind: 'signed', column: -1, invert: false }
+                      : { kind: 'debit-credit', debitColumn: -1, creditColumn: -1 },
+                  })}
+                >
+                  <SelectTrigger size="sm" className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="signed">One signed column</SelectItem>
+                    <SelectItem value="debit-credit">Debit and credit columns</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {mapping.amount.kind === 'signed' ? (
+                <>
+                  <div className="flex items-center justify-between gap-2">
+                    <Label className="text-xs font-normal">Amount column</Label>
+                    {columnSelect(mapping.amount.column, column => updateAmount({ column }), 'Choose column')}
+                  </div>
+                  <div className="flex items-center gap-2 sm:col-start-2">
+                    <Checkbox
+                      id="mapping-invert"
+                      checked={mapping.amount.invert}
+                      onCheckedChange={checked => updateAmount({ invert: checked === true })}
+                    />
+                    <Label htmlFor="mapping-invert" className="text-xs font-normal">
+                      Spending is shown as positive
+                    </Label>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between gap-2">
+                    <Label className="text-xs font-normal">Debit column</Label>
+                    {columnSelect(mapping.amount.debitColumn, debitColumn => updateAmount({ debitColumn }), 'Money out')}
+                  </div>
+                  <div className="flex items-center justify-between gap-2 sm:col-start-2">
+                    <Label className="text-xs font-normal">Credit column</Label>
+                    {columnSelect(mapping.amount.creditColumn, creditColumn => updateAmount({ creditColumn }), 'Money in')}
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="space-y-1.5">
+              <p className="text-xs text-muted-foreground">Description columns</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1.5">
+                {columns.map((c, i) => (
+                  <div key={c.value} className="flex items-center gap-1.5">
+                    <Checkbox
+                      id={`mapping-description-${i}`}
+                      checked={mapping.descriptionColumns.includes(i)}
+                      onCheckedChange={checked => toggleDescription(i, checked === true)}
+                    />
+                    <Label htmlFor={`mapping-description-${i}`} className="text-xs font-normal">
+                      {c.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* What the mapping produces */}
+            <div className="border-t border-dashed border-border pt-3 space-y-1">
+              {problems.length > 0 && (
+                <p className="text-xs text-muted-foreground">{problems.join(' · ')}</p>
+              )}
+              {preview && (
+                <>
+                  <p className="text-xs text-muted-foreground font-mono">
+                    {preview.transactions.length} transactions
+                    {preview.errors.length > 0 && (
+                      <span className="text-amber ml-1">· {preview.errors[0]}</span>
+                    )}
+                  </p>
+                  <table className="w-full text-xs font-mono">
+                    <tbody>
+                      {preview.transactions.slice(0, 5).map((tx, i) => (
+                        <tr key={i} className="border-t border-border/40">
+                          <td className="py-1 pr-3 text-muted-foreground w-24">{tx.date}</td>
+                          <td className="py-1 pr-3 truncate max-w-[300px]">{tx.payee}</td>
+                          <td className={`py-1 text-right ${tx.amount > 0 ? 'text-credit' : 'text-debit'}`}>
+                            {fmt(tx.amount)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="sm:justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="mapping-remember"
+              checked={remember}
+              onCheckedChange={checked => setRemember(checked === true)}
+            />
+            <Label htmlFor="mapping-remember" className="text-xs font-normal">
+              Remember for files with these headers
+            </Label>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              disabled={!mapping || !preview || preview.transactions.length === 0}
+              onClick={() => mapping && onApply(mapping, headers, remember)}
+              className="bg-navy text-parchment hover:bg-navy-light"
+            >
+              Import
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
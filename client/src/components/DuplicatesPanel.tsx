@@ -0,0 +1,81 @@
+/**
+ * DuplicatesPanel
+ *
+ * Lists transactions that appear in more than one uploaded file.
+ * Each copy can be kept or dropped; dropped copies are left out of
+ * every export.
+ */
+
+import { Copy } from 'lucide-react';
+import type { Transaction } from '@/lib/parsers';
+import { memberKey, type DuplicateGroup } from '@/lib/duplicates';
+
+interface DuplicatesPanelProps {
+  groups: DuplicateGroup[];
+  getTransaction: (sourceId: string, index: number) => Transaction | undefined;
+  isDropped: (key: string) => boolean;
+  onChange: (key: string, dropped: boolean) => void;
+}
+
+export default function DuplicatesPanel({ groups, getTransaction, isDropped, onChange }: DuplicatesPanelProps) {
+  const droppedCount = groups.reduce(
+    (sum, g) => sum + g.members.filter(m => isDropped(memberKey(m.sourceId, m.index))).length,
+    0
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-baseline justify-between gap-3">
+        <h2 className="text-sm font-semibold flex items-center gap-2">
+          <Copy className="w-3.5 h-3.5" />
+          Possible duplicates ({groups.length})
+        </h2>
+        <p className="text-xs text-muted-foreground font-mono">
+          {droppedCount} dropped from export
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {groups.map(group => (
+          <div key={group.key} className="border border-dashed border-border rounded-md p-2 space-y-1">
+            {group.members.map(member => {
+              const key = memberKey(member.sourceId, member.index);
+              const tx = getTransaction(member.sourceId, member.index);
+              if (!tx) return null;
+              const dropped = isDropped(key);
+              return (
+                <div key={key} className="flex items-center gap-3 text-xs font-mono">
+                  <span className="text-muted-foreground w-20 shrink-0">{tx.date}</span>
+                  <span className={`flex-1 min-w-0 truncate ${dropped ? 'line-through text-muted-foreground' : ''}`} title={tx.payee}>
+                    {tx.payee}
+                  </span>
+                  <span className="hidden sm:inline text-muted-foreground truncate max-w-[140px]" title={member.fileName}>
+                    {member.fileName}
+                  </span>
+                  <span className={`w-24 text-right ${tx.amount > 0 ? 'text-credit' : 'text-debit'}`}>
+                    {tx.amount > 0 ? '+' : ''}{tx.amount.toLocaleString('en-AE', { minimumFractionDigits: 2 })}
+                  </span>
+                  <div className="flex items-center gap-0.5 bg-muted rounded-md p-0.5 font-sans">
+                    {(['keep', 'drop'] as const).map(choice => (
+                      <button
+                        key={choice}
+                        onClick={() => onChange(key, choice === 'drop')}
+                        className={`px-2 py-0.5 font-medium rounded capitalize transition-colors ${
+                          (choice === 'drop') === dropped
+                            ? 'bg-card text-foreground shadow-sm'
+                            : 'text-muted-foreground hover:text-foreground'
+                        }`}
+                      >
+                        {choice}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
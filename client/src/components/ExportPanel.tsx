@@ -1,21 +1,58 @@
 /**
  * ExportPanel
  * 
- * Controls for choosing YNAB format and downloading.
- * Single file → CSV download.
- * Multiple files → ZIP with one CSV per file.
+ * Controls for choosing the export format and downloading.
+ * YNAB CSV (Inflow/Outflow or Single Amount), QIF, OFX, Beancount or Ledger,
+ * or the CSV import layouts of Actual Budget, Firefly III and Lunch Money.
+ * Single file → direct download.
+ * Multiple files → ZIP with one file per statement, or per account when statements are merged.
+ * Foreign-currency amounts and suggested categories can be added to the memo.
+ * Single files can also be uploaded directly through the YNAB API.
+ * Transactions already sent to YNAB (as a YNAB CSV or by upload) can be
+ * skipped or marked; other formats neither read nor write that ledger.
+ * When the preview is filtered, a single file can export just the filtered rows.
+ * Date and number formats of the YNAB CSV follow the saved export settings.
  */
 
-import { useState } from 'react';
-import { Download, Check, Archive } from 'lucide-react';
+import { useId, useState } from 'react';
+import { Download, Check, Archive, CloudUpload, BookOpen, Settings2 } from 'lucide-react';
+import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
-import { toYNABCSV, downloadCSV, downloadZip, type YNABFormat, type FileExportEntry } from '@/lib/ynab-export';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import YNABUploadDialog from '@/components/YNABUploadDialog';
+import JournalAccountsDialog from '@/components/JournalAccountsDialog';
+import ExportSettingsDialog from '@/components/ExportSettingsDialog';
+import { useExportLedger } from '@/hooks/useExportLedger';
+import { applyLedger, exportedOn, forgetAccount, recordExport, type LedgerMode } from '@/lib/export-ledger';
+import { DEFAULT_FX_MEMO_TEMPLATE, type ExportStatement, type FileExportEntry } from '@/lib/ynab-export';
+import {
+  downloadExport,
+  downloadZip,
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ExportGroup,
+} from '@/lib/export-formats';
+import { loadCSVSettings } from '@/lib/export-settings';
+import { loadJournalSettings, saveJournalSettings, type JournalSettings } from '@/lib/journal-export';
 import type { Transaction } from '@/lib/parsers';
 
 interface SingleFileExportProps {
   mode: 'single';
   transactions: Transaction[];
+  filteredTransactions?: Transaction[];   // set while the preview is filtered
   fileName: string;
+  accountKey?: string;
+  statement?: ExportStatement;   // for the OFX account number and QIF account type
 }
 
 interface MultiFileExportProps {
@@ -25,27 +62,86 @@ interface MultiFileExportProps {
 
 type ExportPanelProps = SingleFileExportProps | MultiFileExportProps;
 
+const FORMAT_GROUPS: ExportGroup[] = ['YNAB', 'Files', 'Plain-text accounting', 'Other apps'];
+const FORMATS = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+
 export default function ExportPanel(props: ExportPanelProps) {
-  const [format, setFormat] = useState<YNABFormat>('inflow-outflow');
+  const [format, setFormat] = useState<ExportFormat>('inflow-outflow');
   const [downloaded, setDownloaded] = useState(false);
   const [exporting, setExporting] = useState(false);
+  const [fxInMemo, setFxInMemo] = useState(true);
+  const fxCheckboxId = useId();
+  const [includeCategory, setIncludeCategory] = useState(true);
+  const categoryCheckboxId = useId();
+  const [uploadOpen, setUploadOpen] = useState(false);
+  const [ledgerMode, setLedgerMode] = useState<LedgerMode>('skip');
+  const [onlyFiltered, setOnlyFiltered] = useState(false);
+  const filteredCheckboxId = useId();
+  const [journal, setJournal] = useState<JournalSettings>(loadJournalSettings);
+  const [journalOpen, setJournalOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const filtered = props.mode === 'single' ? props.filteredTransactions : undefined;
+  useExportLedger();
+
+  const entries: FileExportEntry[] = props.mode === 'single'
+    ? [{
+        originalFileName: props.fileName,
+        transactions: onlyFiltered && filtered ? filtered : props.transactions,
+        accountKey: props.accountKey,
+        statement: props.statement,
+      }]
+    : props.entries;
+  const isJournal = format === 'beancount' || format === 'ledger';
+  const isYNABCSV = format === 'inflow-outflow' || format === 'amount';
+  // The ledger records what reached YNAB, so only the YNAB CSV and the upload use it
+  const ynabPending = entries.map(e => ({ ...e, transactions: applyLedger(e.transactions, e.accountKey, ledgerMode) }));
+  const pending = isYNABCSV ? ynabPending : entries;
+
+  const allTransactions = entries.flatMap(e => e.transactions);
+  const totalTransactions = pending.reduce((sum, e) => sum + e.transactions.length, 0);
+  const ynabTotal = ynabPending.reduce((sum, e) => sum + e.transactions.length, 0);
+  const hasForeign = allTransactions.some(t => t.foreignCurrency);
+  const hasCategories = allTransactions.some(t => t.category);
+  const previouslyExported = entries.reduce(
+    (sum, e) => sum + e.transactions.filter(t => exportedOn(e.accountKey, t)).length,
+    0
+  );
+  // One checkbox: a memo prefix where the format has no category field, the field itself where it has one
+  const options = {
+    fxMemoTemplate: fxInMemo ? DEFAULT_FX_MEMO_TEMPLATE : '',
+    categoryInMemo: includeCategory,
+    categories: includeCategory,
+    journal,
+  };
+  const showLedger = previouslyExported > 0 && (isYNABCSV || props.mode === 'single');
+
+  // One row per account, even when several statements share it
+  const journalStatements = Array.from(new Map(entries.flatMap(e => (e.accountKey && e.statement
+    ? [[e.accountKey, { accountKey: e.accountKey, fileName: e.originalFileName, statement: e.statement }] as const]
+    : []))).values());
+
+  const updateJournal = (next: JournalSettings) => {
+    setJournal(next);
+    saveJournalSettings(next);
+  };
 
-  const totalTransactions = props.mode === 'single'
-    ? props.transactions.length
-    : props.entries.reduce((sum, e) => sum + e.transactions.length, 0);
+  const recordYNAB = () => ynabPending.forEach(e => recordExport(e.accountKey, e.transactions));
 
   const handleExport = async () => {
     setExporting(true);
+    // Read at export time, so a change made from another file's panel applies too
+    const exportOptions = { ...options, csv: loadCSVSettings() };
     try {
       if (props.mode === 'single') {
-        const csv = toYNABCSV(props.transactions, format);
-        const baseName = props.fileName.replace(/\.(csv|pdf|xlsx?)$/i, '');
-        downloadCSV(csv, `${baseName}_ynab.csv`);
+        await downloadExport(pending[0], format, exportOptions);
       } else {
-        await downloadZip(props.entries, format);
+        await downloadZip(pending, format, exportOptions);
       }
+      if (isYNABCSV) recordYNAB();
       setDownloaded(true);
       setTimeout(() => setDownloaded(false), 2500);
+    } catch (err: any) {
+      toast.error(`Could not export: ${err.message}`);
     } finally {
       setExporting(false);
     }
@@ -57,28 +153,124 @@ export default function ExportPanel(props: ExportPanelProps) {
   return (
     <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
       {/* Format selector */}
-      <div className="flex items-center gap-1.5 bg-muted rounded-md p-0.5">
-        <button
-          onClick={() => setFormat('inflow-outflow')}
-          className={`px-3 py-1.5 text-xs font-medium rounded transition-colors ${
-            format === 'inflow-outflow'
-              ? 'bg-card text-foreground shadow-sm'
-              : 'text-muted-foreground hover:text-foreground'
-          }`}
-        >
-          Inflow / Outflow
-        </button>
-        <button
-          onClick={() => setFormat('amount')}
-          className={`px-3 py-1.5 text-xs font-medium rounded transition-colors ${
-            format === 'amount'
-              ? 'bg-card text-foreground shadow-sm'
-              : 'text-muted-foreground hover:text-foreground'
-          }`}
-        >
-          Single Amount
-        </button>
-      </div>
+      <Select value={format} onValueChange={v => setFormat(v as ExportFormat)}>
+        <SelectTrigger size="sm" className="w-44 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FORMAT_GROUPS.map(group => (
+            <SelectGroup key={group}>
+              <SelectLabel className="text-xs">{group}</SelectLabel>
+              {FORMATS.filter(key => EXPORT_FORMATS[key].group === group).map(key => (
+                <SelectItem key={key} value={key} className="text-xs">{EXPORT_FORMATS[key].label}</SelectItem>
+              ))}
+            </SelectGroup>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Date and number formats of the YNAB CSV */}
+      {isYNABCSV && (
+        <>
+          <Button variant="ghost" size="sm" onClick={() => setSettingsOpen(true)} className="gap-2 text-xs">
+            <Settings2 className="w-3.5 h-3.5" />
+            CSV settings
+          </Button>
+          <ExportSettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} format={format} />
+        </>
+      )}
+
+      {/* Asset/liability and fallback accounts for plain-text journals */}
+      {isJournal && (
+        <>
+          <Button variant="ghost" size="sm" onClick={() => setJournalOpen(true)} className="gap-2 text-xs">
+            <BookOpen className="w-3.5 h-3.5" />
+            Accounts
+          </Button>
+          <JournalAccountsDialog
+            open={journalOpen}
+            onOpenChange={setJournalOpen}
+            statements={journalStatements}
+            settings={journal}
+            onChange={updateJournal}
+          />
+        </>
+      )}
+
+      {/* Filtered subset of the preview */}
+      {filtered && (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id={filteredCheckboxId}
+            checked={onlyFiltered}
+            onCheckedChange={checked => setOnlyFiltered(checked === true)}
+          />
+          <Label htmlFor={filteredCheckboxId} className="text-xs font-normal text-muted-foreground">
+            Only the {filtered.length} filtered
+          </Label>
+        </div>
+      )}
+
+      {/* Transactions sent to YNAB in an earlier session */}
+      {showLedger && (
+        <div className="flex items-center gap-1.5 text-xs flex-wrap">
+          <span className="text-muted-foreground">{previouslyExported} already sent to YNAB:</span>
+          <div className="flex items-center gap-0.5 bg-muted rounded-md p-0.5">
+            {(['skip', 'mark', 'include'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setLedgerMode(mode)}
+                className={`px-2 py-1 font-medium rounded capitalize transition-colors ${
+                  ledgerMode === mode
+                    ? 'bg-card text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => entries.forEach(e => e.accountKey && forgetAccount(e.accountKey))}
+            className="text-muted-foreground hover:text-foreground underline underline-offset-2"
+          >
+            Forget
+          </button>
+          {ynabTotal === 0 && (
+            <span className="text-muted-foreground">All skipped; choose Mark or Include to send them again.</span>
+          )}
+        </div>
+      )}
+
+      {/* Foreign-currency memo */}
+      {hasForeign && (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id={fxCheckboxId}
+            checked={fxInMemo}
+            onCheckedChange={checked => setFxInMemo(checked === true)}
+          />
+          <Label htmlFor={fxCheckboxId} className="text-xs font-normal text-muted-foreground">
+            Original currency in memo <span className="font-mono">(USD 49.99 @ 3.6725)</span>
+          </Label>
+        </div>
+      )}
+
+      {/* Suggested category as memo prefix, or its own field where the format has one; the API upload sets the category itself */}
+      {hasCategories && (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id={categoryCheckboxId}
+            checked={includeCategory}
+            onCheckedChange={checked => setIncludeCategory(checked === true)}
+          />
+          <Label htmlFor={categoryCheckboxId} className="text-xs font-normal text-muted-foreground">
+            {EXPORT_FORMATS[format].categoryField
+              ? 'Category'
+              : <>Category in memo <span className="font-mono">([Groceries] …)</span></>}
+          </Label>
+        </div>
+      )}
 
       {/* Download button */}
       <Button
@@ -95,10 +287,34 @@ export default function ExportPanel(props: ExportPanelProps) {
         ) : (
           <>
             <IconComponent className="w-3.5 h-3.5" />
-            {isZip ? 'Export ZIP' : 'Export for YNAB'}
+            {isZip ? 'Export ZIP' : EXPORT_FORMATS[format].group === 'YNAB' ? 'Export for YNAB' : 'Export'}
           </>
         )}
       </Button>
+
+      {/* Direct upload via the YNAB API */}
+      {props.mode === 'single' && (
+        <>
+          <Button
+            onClick={() => setUploadOpen(true)}
+            disabled={ynabTotal === 0}
+            size="sm"
+            variant="outline"
+            className="gap-2"
+          >
+            <CloudUpload className="w-3.5 h-3.5" />
+            Upload to YNAB
+          </Button>
+          <YNABUploadDialog
+            open={uploadOpen}
+            onOpenChange={setUploadOpen}
+            transactions={ynabPending[0].transactions}
+            fileName={props.fileName}
+            options={options}
+            onUploaded={recordYNAB}
+          />
+        </>
+      )}
     </div>
   );
 }
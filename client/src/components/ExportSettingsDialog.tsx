@@ -0,0 +1,147 @@
+/**
+ * ExportSettingsDialog
+ *
+ * Date and number formats for the YNAB CSV, for YNAB files set up with
+ * US or ISO dates or a decimal comma, plus quoting, line endings and a
+ * UTF-8 BOM. Changes are saved right away and previewed on a sample row.
+ */
+
+import { useEffect, useState } from 'react';
+import { Settings2 } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DEFAULT_CSV_SETTINGS,
+  EXPORT_DATE_FORMATS,
+  loadCSVSettings,
+  saveCSVSettings,
+  type CSVSettings,
+  type ExportDateFormat,
+} from '@/lib/export-settings';
+import { toYNABCSV, type YNABFormat } from '@/lib/ynab-export';
+
+const SAMPLE = [
+  { date: '2026-01-15', payee: 'Carrefour', memo: '', amount: -1250, originalDate: '' },
+];
+
+interface ExportSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  format: YNABFormat;
+}
+
+export default function ExportSettingsDialog({ open, onOpenChange, format }: ExportSettingsDialogProps) {
+  const [settings, setSettings] = useState<CSVSettings>(loadCSVSettings);
+
+  // Another export panel may have changed them
+  useEffect(() => {
+    if (open) setSettings(loadCSVSettings());
+  }, [open]);
+
+  const update = (patch: Partial<CSVSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveCSVSettings(next);
+  };
+
+  const check = (id: string, key: 'twoDecimals' | 'quoteAll' | 'bom', label: string) => (
+    <div className="flex items-center gap-2">
+      <Checkbox id={id} checked={settings[key]} onCheckedChange={checked => update({ [key]: checked === true })} />
+      <Label htmlFor={id} className="text-xs font-normal">{label}</Label>
+    </div>
+  );
+
+  const preview = toYNABCSV(SAMPLE, format, { csv: { ...settings, bom: false } })
+    .split(/\r?\n/)
+    .join(settings.lineEnding === 'crlf' ? ' ⏎\n' : '\n');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <Settings2 className="w-4 h-4" />
+            CSV settings
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            Match the date and number format of your YNAB file. Applies to every YNAB CSV and ZIP export.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-2">
+          <Label className="text-xs font-normal">Date format</Label>
+          <Select value={settings.dateFormat} onValueChange={v => update({ dateFormat: v as ExportDateFormat })}>
+            <SelectTrigger size="sm" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPORT_DATE_FORMATS.map(f => (
+                <SelectItem key={f} value={f}>{f}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Label className="text-xs font-normal">Decimal separator</Label>
+          <Select
+            value={settings.decimalSeparator}
+            onValueChange={v => update({ decimalSeparator: v as CSVSettings['decimalSeparator'] })}
+          >
+            <SelectTrigger size="sm" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value=".">Point (12.50)</SelectItem>
+              <SelectItem value=",">Comma (12,50)</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Label className="text-xs font-normal">Line endings</Label>
+          <Select
+            value={settings.lineEnding}
+            onValueChange={v => update({ lineEnding: v as CSVSettings['lineEnding'] })}
+          >
+            <SelectTrigger size="sm" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="lf">LF (macOS, Linux)</SelectItem>
+              <SelectItem value="crlf">CRLF (Windows)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          {check('csv-two-decimals', 'twoDecimals', 'Always two decimals (100.00 instead of 100)')}
+          {check('csv-quote-all', 'quoteAll', 'Quote every field')}
+          {check('csv-bom', 'bom', 'Start with a UTF-8 byte order mark (for Excel)')}
+        </div>
+
+        <pre className="text-xs font-mono bg-muted rounded-md p-2 overflow-x-auto">{preview}</pre>
+
+        <button
+          onClick={() => {
+            setSettings(DEFAULT_CSV_SETTINGS);
+            saveCSVSettings(DEFAULT_CSV_SETTINGS);
+          }}
+          className="text-xs text-muted-foreground hover:text-foreground underline underline-offset-2 justify-self-start"
+        >
+          Reset to defaults
+        </button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -101,7 +101,7 @@ export default function FileUploadZone({ onFilesSelected, isProcessing }: FileUp
               {isDragging ? 'Release to process' : 'Drop files here or click to browse'}
             </p>
             <p className="text-xs text-muted-foreground mt-1.5 font-mono tracking-tight">
-              CSV (ADCB) &middot; PDF / XLSX (Emirates NBD) &middot; XLSX (Mashreq)
+              CSV (ADCB) &middot; PDF / XLSX (Emirates NBD) &middot; PDF / CSV / XLSX (FAB, DIB, Emirates Islamic) &middot; XLSX (Mashreq) &middot; PDF (RAKBANK, CBD, HSBC) &middot; PDF / CSV (Wio, Liv., Zand, Mashreq Neo)
             </p>
           </motion.div>
         </label>
@@ -0,0 +1,127 @@
+/**
+ * JournalAccountsDialog
+ *
+ * Account names for the Beancount and Ledger exports: which asset or
+ * liability account each statement posts to, the fallback expense and
+ * income accounts for transactions without a category, and the home
+ * commodity. Settings are kept in this browser. Names Beancount would
+ * reject are flagged here, and the Beancount export refuses them.
+ */
+
+import { BookOpen } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  defaultJournalAccount,
+  invalidBeancountAccounts,
+  isBeancountAccount,
+  type JournalSettings,
+} from '@/lib/journal-export';
+import type { ExportStatement } from '@/lib/ynab-export';
+
+export interface JournalStatement {
+  accountKey: string;
+  fileName: string;
+  statement: ExportStatement;
+}
+
+interface JournalAccountsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  statements: JournalStatement[];
+  settings: JournalSettings;
+  onChange: (settings: JournalSettings) => void;
+}
+
+export default function JournalAccountsDialog({
+  open,
+  onOpenChange,
+  statements,
+  settings,
+  onChange,
+}: JournalAccountsDialogProps) {
+  const update = (patch: Partial<JournalSettings>) => onChange({ ...settings, ...patch });
+
+  const setAccount = (accountKey: string, name: string) => {
+    const accounts = { ...settings.accounts };
+    if (name.trim()) accounts[accountKey] = name;
+    else delete accounts[accountKey];
+    update({ accounts });
+  };
+
+  const isInvalid = (name: string) => name.trim() !== '' && !isBeancountAccount(name.trim());
+  const invalid = invalidBeancountAccounts(settings);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <BookOpen className="w-4 h-4" />
+            Journal accounts
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            Account names used in the Beancount and Ledger exports. Leave a statement blank for the default.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {statements.map(s => (
+            <div key={s.accountKey} className="space-y-1">
+              <Label className="text-xs font-normal text-muted-foreground truncate block">
+                {s.statement.bankName} {s.statement.statementType} &middot; <span className="font-mono">{s.fileName}</span>
+              </Label>
+              <Input
+                value={settings.accounts[s.accountKey] ?? ''}
+                onChange={e => setAccount(s.accountKey, e.target.value)}
+                placeholder={defaultJournalAccount(s.statement)}
+                aria-invalid={isInvalid(settings.accounts[s.accountKey] ?? '')}
+                className="h-8 text-xs font-mono"
+              />
+            </div>
+          ))}
+
+          <div className="border-t border-dashed border-border" />
+
+          <div className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2">
+            <Label className="text-xs font-normal">Uncategorised spending</Label>
+            <Input
+              value={settings.expenseAccount}
+              onChange={e => update({ expenseAccount: e.target.value })}
+              aria-invalid={isInvalid(settings.expenseAccount)}
+              className="h-8 text-xs font-mono"
+            />
+            <Label className="text-xs font-normal">Uncategorised income</Label>
+            <Input
+              value={settings.incomeAccount}
+              onChange={e => update({ incomeAccount: e.target.value })}
+              aria-invalid={isInvalid(settings.incomeAccount)}
+              className="h-8 text-xs font-mono"
+            />
+            <Label className="text-xs font-normal">Commodity</Label>
+            <Input
+              value={settings.commodity}
+              onChange={e => update({ commodity: e.target.value.toUpperCase() })}
+              className="h-8 w-24 text-xs font-mono"
+            />
+          </div>
+
+          {invalid.length > 0 && (
+            <p className="text-xs text-destructive">
+              Beancount needs names like <span className="font-mono">Assets:ADCB:Current</span>: Assets, Liabilities,
+              Expenses, Income or Equity, then parts that start with a capital letter or digit. Fix{' '}
+              <span className="font-mono">{invalid.join(', ')}</span> before exporting to Beancount.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
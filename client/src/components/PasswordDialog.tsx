@@ -0,0 +1,122 @@
+/**
+ * PasswordDialog
+ *
+ * Prompts for the password of an encrypted PDF statement.
+ * Optionally reuses the password for the remaining files in the batch.
+ */
+
+import { useEffect, useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+export interface PasswordSubmission {
+  password: string;
+  applyToBatch: boolean;
+}
+
+interface PasswordDialogProps {
+  open: boolean;
+  fileName: string;
+  incorrectPassword: boolean;
+  showBatchOption: boolean;
+  onSubmit: (submission: PasswordSubmission) => void;
+  onSkip: () => void;
+}
+
+export default function PasswordDialog({
+  open,
+  fileName,
+  incorrectPassword,
+  showBatchOption,
+  onSubmit,
+  onSkip,
+}: PasswordDialogProps) {
+  const [password, setPassword] = useState('');
+  const [applyToBatch, setApplyToBatch] = useState(false);
+
+  // Fresh input for every prompt
+  useEffect(() => {
+    if (open) setPassword('');
+  }, [open, fileName, incorrectPassword]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    onSubmit({ password, applyToBatch: showBatchOption && applyToBatch });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={next => { if (!next) onSkip(); }}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-base">
+              <Lock className="w-4 h-4" />
+              Password required
+            </DialogTitle>
+            <DialogDescription className="font-mono text-xs break-all">
+              {fileName}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Input
+              type="password"
+              autoFocus
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              placeholder="Statement password"
+              aria-invalid={incorrectPassword}
+            />
+            {incorrectPassword && (
+              <p className="text-xs text-destructive">
+                Incorrect password, please try again.
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              The password is only used to open the file in your browser and is never stored.
+            </p>
+          </div>
+
+          {showBatchOption && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="apply-to-batch"
+                checked={applyToBatch}
+                onCheckedChange={checked => setApplyToBatch(checked === true)}
+              />
+              <Label htmlFor="apply-to-batch" className="text-xs font-normal">
+                Try this password for all files in this batch
+              </Label>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" size="sm" onClick={onSkip}>
+              Skip file
+            </Button>
+            <Button
+              type="submit"
+              size="sm"
+              disabled={!password}
+              className="bg-navy text-parchment hover:bg-navy-light"
+            >
+              Unlock
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
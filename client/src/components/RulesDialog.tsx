@@ -0,0 +1,278 @@
+/**
+ * RulesDialog
+ *
+ * Editor for user-defined payee rules: match conditions on the raw
+ * description, amount and bank, plus the actions to run. Rules apply
+ * top to bottom and can be exported to / imported from a JSON file so
+ * a household or team can share one rule set.
+ */
+
+import { useRef } from 'react';
+import { ArrowDown, ArrowUp, Download, Plus, Trash2, Upload, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  newRule,
+  ruleRegex,
+  rulesFromJSON,
+  rulesToJSON,
+  type MatchType,
+  type PayeeRule,
+  type RuleAction,
+  type RuleActionType,
+} from '@/lib/rules';
+
+const BANK_NAMES = [
+  'ADCB', 'CBD', 'Dubai Islamic Bank', 'Emirates Islamic', 'Emirates NBD', 'FAB', 'HSBC UAE',
+  'Liv.', 'Mashreq', 'Mashreq Neo', 'RAKBANK', 'Wio', 'Zand',
+];
+
+const MATCH_LABELS: Record<MatchType, string> = {
+  'contains': 'Contains',
+  'starts-with': 'Starts with',
+  'regex': 'Regex',
+};
+
+const ACTION_LABELS: Record<RuleActionType, string> = {
+  'set-payee': 'Set payee',
+  'set-memo': 'Set memo',
+  'append-memo': 'Append to memo',
+  'set-category': 'Set category',
+  'skip': 'Skip transaction',
+};
+
+interface RulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rules: PayeeRule[];
+  onChange: (rules: PayeeRule[]) => void;
+}
+
+function parseBound(value: string): number | undefined {
+  const n = parseFloat(value);
+  return isFinite(n) ? n : undefined;
+}
+
+export default function RulesDialog({ open, onOpenChange, rules, onChange }: RulesDialogProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const update = (id: string, patch: Partial<PayeeRule>) =>
+    onChange(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+  const move = (index: number, offset: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    onChange(next);
+  };
+
+  const setAction = (rule: PayeeRule, index: number, action: RuleAction) =>
+    update(rule.id, { actions: rule.actions.map((a, i) => (i === index ? action : a)) });
+
+  const exportRules = () => {
+    const blob = new Blob([rulesToJSON(rules)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'uae2ynab-rules.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const importRules = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = rulesFromJSON(await file.text());
+      onChange(imported);
+      toast.success(`Imported ${imported.length} rule${imported.length !== 1 ? 's' : ''}`);
+    } catch (err: any) {
+      toast.error(`Could not import rules: ${err.message}`);
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <Wand2 className="w-4 h-4" />
+            Payee rules
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            Applied top to bottom after parsing. Conditions match the raw statement description.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {rules.length === 0 && (
+            <p className="text-xs text-muted-foreground font-mono py-4 text-center">No rules yet</p>
+          )}
+
+          {rules.map((rule, index) => {
+            const invalidRegex = rule.matchType === 'regex' && rule.pattern !== '' && !ruleRegex(rule);
+            return (
+              <div key={rule.id} className="border border-border rounded-md p-3 space-y-2">
+                {/* Conditions */}
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    checked={rule.enabled}
+                    onCheckedChange={checked => update(rule.id, { enabled: checked === true })}
+                    title="Enabled"
+                  />
+                  <Select value={rule.matchType} onValueChange={v => update(rule.id, { matchType: v as MatchType })}>
+                    <SelectTrigger size="sm" className="w-32 shrink-0">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(MATCH_LABELS) as MatchType[]).map(type => (
+                        <SelectItem key={type} value={type}>{MATCH_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={rule.pattern}
+                    onChange={e => update(rule.id, { pattern: e.target.value })}
+                    placeholder="e.g. CAREEM"
+                    aria-invalid={invalidRegex}
+                    className="h-8 text-xs font-mono"
+                  />
+                  <div className="flex shrink-0">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" disabled={index === 0} onClick={() => move(index, -1)}>
+                      <ArrowUp className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" disabled={index === rules.length - 1} onClick={() => move(index, 1)}>
+                      <ArrowDown className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onChange(rules.filter(r => r.id !== rule.id))}>
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2 pl-6">
+                  <Input
+                    type="number"
+                    min={0}
+                    value={rule.minAmount ?? ''}
+                    onChange={e => update(rule.id, { minAmount: parseBound(e.target.value) })}
+                    placeholder="Min amount"
+                    className="h-8 text-xs font-mono"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    value={rule.maxAmount ?? ''}
+                    onChange={e => update(rule.id, { maxAmount: parseBound(e.target.value) })}
+                    placeholder="Max amount"
+                    className="h-8 text-xs font-mono"
+                  />
+                  <Input
+                    list="rule-bank-names"
+                    value={rule.bank ?? ''}
+                    onChange={e => update(rule.id, { bank: e.target.value || undefined })}
+                    placeholder="Any bank"
+                    className="h-8 text-xs"
+                  />
+                </div>
+
+                {/* Actions */}
+                {rule.actions.map((action, i) => (
+                  <div key={i} className="flex items-center gap-2 pl-6">
+                    <Select
+                      value={action.type}
+                      onValueChange={v => setAction(rule, i, v === 'skip'
+                        ? { type: 'skip' }
+                        : { type: v as Exclude<RuleActionType, 'skip'>, value: 'value' in action ? action.value : '' })}
+                    >
+                      <SelectTrigger size="sm" className="w-40 shrink-0">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ACTION_LABELS) as RuleActionType[]).map(type => (
+                          <SelectItem key={type} value={type}>{ACTION_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {action.type !== 'skip' && (
+                      <Input
+                        value={action.value}
+                        onChange={e => setAction(rule, i, { ...action, value: e.target.value })}
+                        className="h-8 text-xs"
+                      />
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0 ml-auto"
+                      disabled={rule.actions.length === 1}
+                      onClick={() => update(rule.id, { actions: rule.actions.filter((_, j) => j !== i) })}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-6 h-7 text-xs text-muted-foreground"
+                  onClick={() => update(rule.id, { actions: [...rule.actions, { type: 'set-memo', value: '' }] })}
+                >
+                  <Plus className="w-3 h-3" />
+                  Action
+                </Button>
+              </div>
+            );
+          })}
+
+          <datalist id="rule-bank-names">
+            {BANK_NAMES.map(name => <option key={name} value={name} />)}
+          </datalist>
+        </div>
+
+        <div className="flex items-center gap-2 flex-wrap">
+          <Button variant="outline" size="sm" onClick={() => onChange([...rules, newRule()])} className="gap-2">
+            <Plus className="w-3.5 h-3.5" />
+            Add rule
+          </Button>
+          <div className="ml-auto flex gap-2">
+            <Button variant="ghost" size="sm" onClick={() => fileInput.current?.click()} className="gap-2 text-xs">
+              <Upload className="w-3.5 h-3.5" />
+              Import JSON
+            </Button>
+            <Button variant="ghost" size="sm" onClick={exportRules} disabled={rules.length === 0} className="gap-2 text-xs">
+              <Download className="w-3.5 h-3.5" />
+              Export JSON
+            </Button>
+          </div>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={e => importRules(e.target.files?.[0])}
+          />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { cleanup, render } from '@testing-library/react';
+import TransactionTable from './TransactionTable';
+import { largeStatementCSV } from '@/lib/fixtures/large-statement';
+import { parseADCBAccount, type Transaction } from '@/lib/parsers/adcb';
+import { DEFAULT_TABLE_VIEW, type TableView } from '@/lib/table-view';
+
+// The table only mounts the rows in view, so a year-long statement renders
+// the same number of rows as a short one. Counting rows instead of timing
+// them keeps the check stable on a busy machine.
+
+const ROW_HEIGHT = 28;   // h-7, as in TransactionTable
+const OVERSCAN = 10;     // useVirtualRows' default
+
+// jsdom has no layout, so the table falls back to one window-height screenful
+const windowSize = () => Math.ceil(window.innerHeight / ROW_HEIGHT) + OVERSCAN * 2;
+
+function transactionsFor(rows: number): Transaction[] {
+  return parseADCBAccount(largeStatementCSV(rows)).transactions;
+}
+
+// Transaction rows, not the spacers that stand in for the rest
+function renderedRows(transactions: Transaction[], view: TableView = DEFAULT_TABLE_VIEW): number {
+  const { container } = render(
+    <TransactionTable
+      transactions={transactions}
+      bankName="ADCB"
+      statementType="Account Statement"
+      view={view}
+      onViewChange={() => {}}
+    />
+  );
+  return container.querySelectorAll('tbody tr[class]').length;
+}
+
+describe('TransactionTable virtualization', () => {
+  beforeAll(() => {
+    globalThis.ResizeObserver ??= class {
+      observe() {}
+      unobserve() {}
+      disconnect() {}
+    } as unknown as typeof ResizeObserver;
+  });
+  afterEach(cleanup);
+
+  it('renders every row of a statement shorter than the window', () => {
+    expect(renderedRows(transactionsFor(20))).toBe(20);
+  });
+
+  it('renders one window of rows for 1,000 and for 10,000 transactions', () => {
+    const small = transactionsFor(1_000);
+    const large = transactionsFor(10_000);
+    expect(large).toHaveLength(10_000);
+
+    const smallRows = renderedRows(small);
+    cleanup();
+    const largeRows = renderedRows(large);
+    expect(smallRows).toBe(windowSize());
+    expect(largeRows).toBe(windowSize());
+  });
+
+  it('keeps the window size while a search narrows 10,000 rows', () => {
+    const rows = renderedRows(transactionsFor(10_000), { ...DEFAULT_TABLE_VIEW, search: 'carrefour' });
+    expect(rows).toBeGreaterThan(0);
+    expect(rows).toBeLessThanOrEqual(windowSize());
+  });
+});
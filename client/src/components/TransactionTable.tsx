@@ -3,24 +3,162 @@
  * 
  * Monospaced, receipt-style transaction preview.
  * Green for inflows, red for outflows.
+ * Rows where the running balance breaks are highlighted, and rows
+ * exported in an earlier session are dimmed. Rows dropped as
+ * duplicates of another file or skipped by a payee rule are struck through.
+ * Date, payee, memo, amount and the suggested category can be edited
+ * inline; edited rows are marked with their parsed values, and rows can
+ * be deleted and restored. Rows can be sorted, searched and filtered;
+ * the In/Out totals follow the filtered view.
+ * Only the rows scrolled into view are rendered, so year-long statements
+ * with thousands of rows stay responsive.
  */
 
+import { useId, useMemo } from 'react';
 import { motion } from 'framer-motion';
+import { ArrowDown, ArrowUp, Pencil, RotateCcw, Search, Trash2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
 import type { Transaction } from '@/lib/parsers';
+import type { Reconciliation } from '@/lib/reconcile';
+import { formatForeignMemo } from '@/lib/ynab-export';
+import { exportedOn } from '@/lib/export-ledger';
+import { useExportLedger } from '@/hooks/useExportLedger';
+import { useVirtualRows } from '@/hooks/useVirtualRows';
+import { knownCategories } from '@/lib/categories';
+import type { TransactionEdit } from '@/lib/edits';
+import { isFiltered, visibleIndices, type DirectionFilter, type SortKey, type TableView } from '@/lib/table-view';
 
 interface TransactionTableProps {
   transactions: Transaction[];
   bankName: string;
   statementType: string;
+  reconciliation?: Reconciliation;
+  accountKey?: string;
+  droppedRows?: Set<number>;
+  skippedRows?: Set<number>;
+  onCategoryChange?: (index: number, category: string) => void;
+  onEdit?: (index: number, change: TransactionEdit) => void;
+  editedRows?: Map<number, Transaction>;    // parsed values of edited rows
+  deletedRows?: Set<number>;
+  view?: TableView;
+  onViewChange?: (view: TableView) => void;
 }
 
-export default function TransactionTable({ transactions, bankName, statementType }: TransactionTableProps) {
-  const totalInflow = transactions
-    .filter(t => t.amount > 0)
-    .reduce((sum, t) => sum + t.amount, 0);
-  const totalOutflow = transactions
-    .filter(t => t.amount < 0)
-    .reduce((sum, t) => sum + Math.abs(t.amount), 0);
+// Every row is one line of text-xs with py-1.5, see the h-7 on <tr>
+const ROW_HEIGHT = 28;
+
+function fmt(n: number): string {
+  return n.toLocaleString('en-AE', { minimumFractionDigits: 2 });
+}
+
+interface EditableTextProps {
+  value: string;
+  onCommit: (value: string) => void;
+  type?: 'text' | 'date';
+  list?: string;
+  placeholder?: string;
+  className?: string;
+}
+
+// Borderless input that commits on blur or Enter and reverts on Escape
+function EditableText({ value, onCommit, type = 'text', list, placeholder, className = '' }: EditableTextProps) {
+  return (
+    <input
+      key={value}
+      type={type}
+      defaultValue={value}
+      list={list}
+      placeholder={placeholder}
+      onBlur={e => e.target.value.trim() !== value && onCommit(e.target.value.trim())}
+      onKeyDown={e => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+          e.currentTarget.value = value;
+          e.currentTarget.blur();
+        }
+      }}
+      className={`bg-transparent outline-none border-b border-transparent hover:border-border/60 focus:border-border placeholder:text-muted-foreground/50 ${className}`}
+    />
+  );
+}
+
+function parseBound(value: string): number | undefined {
+  const n = parseFloat(value);
+  return isFinite(n) ? n : undefined;
+}
+
+function describeOriginal(tx: Transaction): string {
+  return `Edited. Parsed as: ${tx.date} · ${tx.payee} · ${fmt(tx.amount)}${tx.memo ? ` · ${tx.memo}` : ''}`;
+}
+
+export default function TransactionTable({
+  transactions,
+  bankName,
+  statementType,
+  reconciliation,
+  accountKey,
+  droppedRows,
+  skippedRows,
+  onCategoryChange,
+  onEdit,
+  editedRows,
+  deletedRows,
+  view,
+  onViewChange,
+}: TransactionTableProps) {
+  useExportLedger();
+  const categoryListId = useId();
+  const breaks = useMemo(
+    () => new Map((reconciliation?.breaks ?? []).map(b => [b.index, b])),
+    [reconciliation]
+  );
+
+  // Indices into `transactions`, in display order; only recomputed when the
+  // rows or the view change, not when scrolling
+  const shown = useMemo(
+    () => (view ? visibleIndices(transactions, view) : transactions.map((_, i) => i)),
+    [transactions, view]
+  );
+  const filtered = view ? isFiltered(view) : false;
+  const rows = useVirtualRows({ count: shown.length, rowHeight: ROW_HEIGHT });
+
+  // Totals match what gets exported: deleted, skipped and dropped rows stay out
+  const [totalInflow, totalOutflow, leftOut] = useMemo(() => {
+    let inflow = 0;
+    let outflow = 0;
+    let excluded = 0;
+    for (const i of shown) {
+      if (deletedRows?.has(i) || skippedRows?.has(i) || droppedRows?.has(i)) {
+        excluded++;
+        continue;
+      }
+      const { amount } = transactions[i];
+      if (amount > 0) inflow += amount;
+      else outflow -= amount;
+    }
+    return [inflow, outflow, excluded];
+  }, [shown, transactions, deletedRows, skippedRows, droppedRows]);
+
+  const updateView = (patch: Partial<TableView>) => view && onViewChange?.({ ...view, ...patch });
+
+  // Click cycles ascending → descending → statement order
+  const toggleSort = (key: SortKey) => {
+    if (!view) return;
+    if (view.sortKey !== key) updateView({ sortKey: key, sortDescending: false });
+    else if (!view.sortDescending) updateView({ sortDescending: true });
+    else updateView({ sortKey: null, sortDescending: false });
+  };
+
+  const sortHeader = (key: SortKey, label: string) => {
+    if (!view || !onViewChange) return label;
+    const SortIcon = view.sortDescending ? ArrowDown : ArrowUp;
+    return (
+      <button onClick={() => toggleSort(key)} className="inline-flex items-center gap-1 hover:text-foreground">
+        {label}
+        {view.sortKey === key && <SortIcon className="w-3 h-3" />}
+      </button>
+    );
+  };
 
   return (
     <motion.div
@@ -39,59 +177,222 @@ export default function TransactionTable({ transactions, bankName, statementType
           <p>
             <span className="text-muted-foreground mr-2">In</span>
             <span className="text-credit font-medium">
-              {totalInflow.toLocaleString('en-AE', { minimumFractionDigits: 2 })}
+              {fmt(totalInflow)}
             </span>
           </p>
           <p>
             <span className="text-muted-foreground mr-2">Out</span>
             <span className="text-debit font-medium">
-              {totalOutflow.toLocaleString('en-AE', { minimumFractionDigits: 2 })}
+              {fmt(totalOutflow)}
             </span>
           </p>
         </div>
       </div>
 
+      {/* Search and filters */}
+      {view && onViewChange && (
+        <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+          <div className="relative flex-1 min-w-[160px]">
+            <Search className="w-3.5 h-3.5 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={view.search}
+              onChange={e => updateView({ search: e.target.value })}
+              placeholder="Search payee or memo"
+              className="h-7 pl-7 text-xs"
+            />
+          </div>
+          <div className="flex items-center gap-0.5 bg-muted rounded-md p-0.5">
+            {(['all', 'inflow', 'outflow'] as DirectionFilter[]).map(direction => (
+              <button
+                key={direction}
+                onClick={() => updateView({ direction })}
+                className={`px-2 py-1 font-medium rounded capitalize transition-colors ${
+                  view.direction === direction
+                    ? 'bg-card text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {direction}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1 font-mono">
+            <Input
+              type="date"
+              value={view.fromDate}
+              onChange={e => updateView({ fromDate: e.target.value })}
+              className="h-7 w-[8.5rem] text-xs"
+              title="From date"
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              type="date"
+              value={view.toDate}
+              onChange={e => updateView({ toDate: e.target.value })}
+              className="h-7 w-[8.5rem] text-xs"
+              title="To date"
+            />
+          </div>
+          <div className="flex items-center gap-1 font-mono">
+            <Input
+              type="number"
+              min={0}
+              value={view.minAmount ?? ''}
+              onChange={e => updateView({ minAmount: parseBound(e.target.value) })}
+              placeholder="Min"
+              className="h-7 w-20 text-xs"
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              type="number"
+              min={0}
+              value={view.maxAmount ?? ''}
+              onChange={e => updateView({ maxAmount: parseBound(e.target.value) })}
+              placeholder="Max"
+              className="h-7 w-20 text-xs"
+            />
+          </div>
+        </div>
+      )}
+
       {/* Perforation line */}
       <div className="border-t border-dashed border-border mb-2" />
 
       {/* Table */}
-      <div className="overflow-x-auto">
+      <div ref={rows.containerRef} onScroll={rows.onScroll} className="overflow-auto max-h-[70vh]">
         <table className="w-full text-xs font-mono">
-          <thead>
+          <thead className="sticky top-0 z-10 bg-card">
             <tr className="text-muted-foreground text-left">
-              <th className="py-1.5 pr-3 font-medium w-24">Date</th>
-              <th className="py-1.5 pr-3 font-medium">Payee</th>
+              <th className="py-1.5 pr-3 font-medium w-24">{sortHeader('date', 'Date')}</th>
+              <th className="py-1.5 pr-3 font-medium">{sortHeader('payee', 'Payee')}</th>
+              <th className="py-1.5 pr-3 font-medium w-28 hidden md:table-cell">Category</th>
               <th className="py-1.5 pr-3 font-medium w-16 hidden sm:table-cell">Memo</th>
-              <th className="py-1.5 font-medium text-right w-28">Amount</th>
+              <th className="py-1.5 font-medium text-right w-28">{sortHeader('amount', 'Amount')}</th>
+              {onEdit && <th className="py-1.5 w-12" />}
             </tr>
           </thead>
           <tbody>
-            {transactions.map((tx, i) => (
-              <motion.tr
-                key={`${tx.date}-${tx.payee}-${tx.amount}-${i}`}
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                transition={{ delay: Math.min(i * 0.01, 0.5), duration: 0.15 }}
-                className="border-t border-border/40 hover:bg-muted/30 transition-colors"
-              >
-                <td className="py-1.5 pr-3 text-muted-foreground whitespace-nowrap">
-                  {tx.date}
-                </td>
-                <td className="py-1.5 pr-3 truncate max-w-[200px] sm:max-w-[350px]" title={tx.payee}>
-                  {tx.payee}
-                </td>
-                <td className="py-1.5 pr-3 text-muted-foreground truncate max-w-[100px] hidden sm:table-cell" title={tx.memo}>
-                  {tx.memo}
-                </td>
-                <td className={`py-1.5 text-right whitespace-nowrap font-medium ${
-                  tx.amount > 0 ? 'text-credit' : 'text-debit'
-                }`}>
-                  {tx.amount > 0 ? '+' : ''}{tx.amount.toLocaleString('en-AE', { minimumFractionDigits: 2 })}
-                </td>
-              </motion.tr>
-            ))}
+            {rows.paddingTop > 0 && <tr style={{ height: rows.paddingTop }} />}
+            {shown.slice(rows.start, rows.end).map(i => {
+              const tx = transactions[i];
+              const brk = breaks.get(i);
+              const memo = [tx.memo, formatForeignMemo(tx)].filter(Boolean).join(' · ');
+              const exported = exportedOn(accountKey, tx);
+              const skipped = skippedRows?.has(i) ?? false;
+              const deleted = deletedRows?.has(i) ?? false;
+              const dropped = skipped || deleted || (droppedRows?.has(i) ?? false);
+              const original = editedRows?.get(i);
+              return (
+                <tr
+                  key={i}
+                  className={`h-7 border-t border-border/40 hover:bg-muted/30 transition-colors ${
+                    brk ? 'bg-debit/10' : ''
+                  } ${exported || dropped ? '[&>td]:opacity-50' : ''} ${dropped ? 'line-through' : ''}`}
+                  title={brk
+                    ? `Balance breaks here: expected ${fmt(brk.expected)}, statement shows ${fmt(brk.printed)}${
+                        brk.signFlipped ? ' (amount sign looks reversed)' : ''
+                      }`
+                    : deleted ? 'Deleted'
+                    : skipped ? 'Skipped by a payee rule'
+                    : dropped ? 'Dropped as a duplicate of another file'
+                    : exported ? `Exported on ${exported}` : undefined}
+                >
+                  <td className="py-1.5 pr-3 text-muted-foreground whitespace-nowrap">
+                    {onEdit ? (
+                      <EditableText type="date" value={tx.date} onCommit={date => date && onEdit(i, { date })} className="w-24" />
+                    ) : (
+                      tx.date
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-3 truncate max-w-[200px] sm:max-w-[350px]" title={tx.rawDescription ?? tx.payee}>
+                    {onEdit ? (
+                      <EditableText value={tx.payee} onCommit={payee => onEdit(i, { payee })} className="w-full" />
+                    ) : (
+                      tx.payee
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-3 text-muted-foreground hidden md:table-cell">
+                    {onCategoryChange ? (
+                      <EditableText
+                        value={tx.category ?? ''}
+                        onCommit={category => onCategoryChange(i, category)}
+                        list={categoryListId}
+                        placeholder="—"
+                        className="w-28"
+                      />
+                    ) : (
+                      tx.category
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-3 text-muted-foreground truncate max-w-[100px] hidden sm:table-cell" title={memo}>
+                    {onEdit ? (
+                      <EditableText value={tx.memo} onCommit={value => onEdit(i, { memo: value })} placeholder="—" className="w-full" />
+                    ) : (
+                      memo
+                    )}
+                  </td>
+                  <td className={`py-1.5 text-right whitespace-nowrap font-medium ${
+                    tx.amount > 0 ? 'text-credit' : 'text-debit'
+                  }`}>
+                    {brk && <span className="text-debit mr-1">!</span>}
+                    {onEdit ? (
+                      <>
+                        <button
+                          onClick={() => onEdit(i, { amount: -tx.amount })}
+                          title="Flip inflow / outflow"
+                          className="px-0.5 rounded hover:bg-muted"
+                        >
+                          {tx.amount > 0 ? '+' : '−'}
+                        </button>
+                        <EditableText
+                          value={Math.abs(tx.amount).toFixed(2)}
+                          onCommit={value => {
+                            const n = parseFloat(value.replace(/,/g, ''));
+                            if (isFinite(n)) onEdit(i, { amount: tx.amount < 0 ? -Math.abs(n) : Math.abs(n) });
+                          }}
+                          className="w-20 text-right"
+                        />
+                      </>
+                    ) : (
+                      <>{tx.amount > 0 ? '+' : ''}{fmt(tx.amount)}</>
+                    )}
+                  </td>
+                  {onEdit && (
+                    <td className="py-1.5 pl-2 text-right whitespace-nowrap">
+                      {original && (
+                        <button
+                          onClick={() => onEdit(i, {
+                            date: original.date,
+                            payee: original.payee,
+                            memo: original.memo,
+                            amount: original.amount,
+                          })}
+                          title={`${describeOriginal(original)}. Click to revert.`}
+                          className="p-0.5 rounded text-amber hover:bg-muted"
+                        >
+                          <Pencil className="w-3 h-3" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => onEdit(i, { deleted: !deleted })}
+                        title={deleted ? 'Restore' : 'Delete'}
+                        className="p-0.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted"
+                      >
+                        {deleted ? <RotateCcw className="w-3 h-3" /> : <Trash2 className="w-3 h-3" />}
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+            {rows.paddingBottom > 0 && <tr style={{ height: rows.paddingBottom }} />}
           </tbody>
         </table>
+        {onCategoryChange && (
+          <datalist id={categoryListId}>
+            {knownCategories().map(c => <option key={c} value={c} />)}
+          </datalist>
+        )}
       </div>
 
       {/* Perforation line */}
@@ -99,8 +400,24 @@ export default function TransactionTable({ transactions, bankName, statementType
 
       {/* Footer */}
       <p className="text-xs text-muted-foreground mt-2 font-mono">
+        {filtered && `${shown.length} of `}
         {transactions.length} transaction{transactions.length !== 1 ? 's' : ''}
+        {leftOut > 0 && ` · ${leftOut} deleted, skipped or duplicate, not in the totals`}
       </p>
+      {reconciliation?.status === 'ok' && (
+        <p className="text-xs text-credit mt-1 font-mono">
+          Balances reconcile: {fmt(reconciliation.openingBalance!)} → {fmt(reconciliation.closingBalance!)}
+        </p>
+      )}
+      {reconciliation?.status === 'mismatch' && (
+        <p className="text-xs text-debit mt-1 font-mono">
+          {reconciliation.difference
+            ? `Closing balance ${fmt(reconciliation.closingBalance!)} differs from computed ${fmt(reconciliation.computedClosing!)} by ${fmt(reconciliation.difference)}`
+            : 'Closing balance matches'}
+          {reconciliation.breaks.length > 0 &&
+            ` · running balance breaks on ${reconciliation.breaks.length} row${reconciliation.breaks.length !== 1 ? 's' : ''}`}
+        </p>
+      )}
     </motion.div>
   );
 }
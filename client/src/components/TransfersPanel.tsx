@@ -0,0 +1,104 @@
+/**
+ * TransfersPanel
+ *
+ * Shows outflow/inflow pairs matched across statements as transfers
+ * between the user's own accounts. Accepted pairs are exported with
+ * YNAB's "Transfer : <Account Name>" payee on both sides, so the
+ * account names here must match the accounts in YNAB. Pairs with no
+ * transfer wording on either side start unticked.
+ */
+
+import { ArrowLeftRight } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import type { Transaction } from '@/lib/parsers';
+import type { TransferPair } from '@/lib/transfers';
+
+interface TransferAccount {
+  accountKey: string;
+  name: string;
+  fileNames: string[];
+}
+
+interface TransfersPanelProps {
+  pairs: TransferPair[];
+  accounts: TransferAccount[];
+  getTransaction: (sourceId: string, index: number) => Transaction | undefined;
+  getAccountName: (sourceId: string) => string;
+  isAccepted: (key: string) => boolean;
+  onAcceptedChange: (key: string, accepted: boolean) => void;
+  onAccountNameChange: (accountKey: string, name: string) => void;
+}
+
+export default function TransfersPanel({
+  pairs,
+  accounts,
+  getTransaction,
+  getAccountName,
+  isAccepted,
+  onAcceptedChange,
+  onAccountNameChange,
+}: TransfersPanelProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-baseline justify-between gap-3">
+        <h2 className="text-sm font-semibold flex items-center gap-2">
+          <ArrowLeftRight className="w-3.5 h-3.5" />
+          Transfers between your accounts ({pairs.length})
+        </h2>
+        <p className="text-xs text-muted-foreground font-mono">
+          {pairs.filter(p => isAccepted(p.key)).length} linked
+        </p>
+      </div>
+
+      {/* YNAB account names */}
+      <div className="space-y-1.5">
+        <p className="text-xs text-muted-foreground">Account names as they appear in YNAB</p>
+        {accounts.map(account => (
+          <div key={account.accountKey} className="flex items-center gap-3">
+            <Input
+              value={account.name}
+              onChange={e => onAccountNameChange(account.accountKey, e.target.value)}
+              className="h-8 text-xs max-w-[240px]"
+            />
+            <span className="text-xs text-muted-foreground font-mono truncate" title={account.fileNames.join(', ')}>
+              {account.fileNames.join(', ')}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Matched pairs */}
+      <div className="space-y-1">
+        {pairs.map(pair => {
+          const out = getTransaction(pair.from.sourceId, pair.from.index);
+          const inflow = getTransaction(pair.to.sourceId, pair.to.index);
+          if (!out || !inflow) return null;
+          return (
+            <label
+              key={pair.key}
+              className="flex items-center gap-3 text-xs font-mono py-1 border-t border-border/40 cursor-pointer"
+            >
+              <Checkbox
+                checked={isAccepted(pair.key)}
+                onCheckedChange={checked => onAcceptedChange(pair.key, checked === true)}
+              />
+              <span className="text-muted-foreground w-20 shrink-0">{out.date}</span>
+              <span className="flex-1 min-w-0 truncate" title={`${out.payee} → ${inflow.payee}`}>
+                {getAccountName(pair.from.sourceId)} → {getAccountName(pair.to.sourceId)}
+              </span>
+              {!pair.hinted && (
+                <span className="text-muted-foreground shrink-0" title="Neither description mentions a transfer">
+                  equal amount only
+                </span>
+              )}
+              <span className="w-24 text-right">
+                {Math.abs(out.amount).toLocaleString('en-AE', { minimumFractionDigits: 2 })}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
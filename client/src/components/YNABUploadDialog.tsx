@@ -0,0 +1,243 @@
+/**
+ * YNABUploadDialog
+ *
+ * Sends a statement's transactions straight to YNAB through the API:
+ * paste a personal access token, pick a budget and account, upload.
+ * Re-uploading the same statement is safe — YNAB skips known import_ids.
+ * Suggested categories are matched to the budget's categories by name.
+ */
+
+import { useEffect, useId, useState } from 'react';
+import { CloudUpload, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  categoryIdsByName,
+  clearToken,
+  getAccounts,
+  getBudgets,
+  getCategories,
+  loadToken,
+  saveToken,
+  uploadTransactions,
+  type YNABAccount,
+  type YNABBudget,
+} from '@/lib/ynab-api';
+import type { YNABExportOptions } from '@/lib/ynab-export';
+import type { Transaction } from '@/lib/parsers';
+
+interface YNABUploadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transactions: Transaction[];
+  fileName: string;
+  options: YNABExportOptions;
+  onUploaded?: () => void;
+}
+
+export default function YNABUploadDialog({
+  open,
+  onOpenChange,
+  transactions,
+  fileName,
+  options,
+  onUploaded,
+}: YNABUploadDialogProps) {
+  const [token, setToken] = useState('');
+  const [remember, setRemember] = useState(false);
+  const [budgets, setBudgets] = useState<YNABBudget[]>([]);
+  const [accounts, setAccounts] = useState<YNABAccount[]>([]);
+  const [budgetId, setBudgetId] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [categoryIds, setCategoryIds] = useState<Map<string, string>>(new Map());
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const rememberId = useId();
+
+  const categorised = transactions.filter(t => t.category);
+  const matchedCategories = categorised.filter(t => categoryIds.has(t.category!.toLowerCase())).length;
+
+  useEffect(() => {
+    if (!open) return;
+    const stored = loadToken();
+    setToken(stored);
+    setRemember(stored !== '');
+    setError(null);
+  }, [open]);
+
+  const connect = async () => {
+    if (!token) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const list = await getBudgets(token);
+      setBudgets(list);
+      setAccounts([]);
+      setAccountId('');
+      setBudgetId(list.length === 1 ? list[0].id : '');
+      if (list.length === 1) await loadBudget(list[0].id);
+      if (remember) saveToken(token);
+      else clearToken();
+    } catch (err: any) {
+      setError(err.message);
+      setBudgets([]);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const loadBudget = async (id: string) => {
+    const [accountList, categories] = await Promise.all([getAccounts(token, id), getCategories(token, id)]);
+    setAccounts(accountList);
+    setCategoryIds(categoryIdsByName(categories));
+  };
+
+  const selectBudget = async (id: string) => {
+    setBudgetId(id);
+    setAccountId('');
+    setBusy(true);
+    setError(null);
+    try {
+      await loadBudget(id);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const upload = async () => {
+    if (!budgetId || !accountId) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await uploadTransactions(token, budgetId, accountId, transactions, options, categoryIds);
+      onUploaded?.();
+      const account = accounts.find(a => a.id === accountId)?.name ?? 'YNAB';
+      toast.success(
+        `Uploaded ${result.created} transaction${result.created !== 1 ? 's' : ''} to ${account}` +
+        (result.duplicates ? ` · ${result.duplicates} already imported` : '')
+      );
+      onOpenChange(false);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <CloudUpload className="w-4 h-4" />
+            Upload to YNAB
+          </DialogTitle>
+          <DialogDescription className="font-mono text-xs break-all">
+            {fileName} &middot; {transactions.length} transactions
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-xs">Personal access token</Label>
+            <div className="flex gap-2">
+              <Input
+                type="password"
+                value={token}
+                onChange={e => setToken(e.target.value)}
+                placeholder="From YNAB → Account Settings → Developer Settings"
+                autoComplete="off"
+              />
+              <Button variant="outline" onClick={connect} disabled={!token || busy}>
+                Connect
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={rememberId}
+                checked={remember}
+                onCheckedChange={checked => setRemember(checked === true)}
+              />
+              <Label htmlFor={rememberId} className="text-xs font-normal text-muted-foreground">
+                Remember token in this browser
+              </Label>
+            </div>
+          </div>
+
+          {budgets.length > 0 && (
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={budgetId} onValueChange={selectBudget} disabled={busy}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Budget" />
+                </SelectTrigger>
+                <SelectContent>
+                  {budgets.map(b => (
+                    <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={accountId} onValueChange={setAccountId} disabled={busy || accounts.length === 0}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map(a => (
+                    <SelectItem key={a.id} value={a.id}>{a.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {budgetId && categorised.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {matchedCategories} of {categorised.length} suggested categories match a category in this budget.
+              {matchedCategories < categorised.length && options.categoryInMemo && ' The rest are kept in the memo.'}
+            </p>
+          )}
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+
+          <p className="text-xs text-muted-foreground">
+            Transactions are sent from this browser directly to YNAB. The token never leaves
+            your device except in requests to YNAB.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={upload}
+            disabled={!budgetId || !accountId || busy || transactions.length === 0}
+            className="gap-2 bg-navy text-parchment hover:bg-navy-light"
+          >
+            {busy && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+            Upload
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from "react";
+import { ledgerVersion, subscribeLedger } from "@/lib/export-ledger";
+
+/**
+ * Re-renders the component whenever the export ledger is written
+ */
+export function useExportLedger() {
+  return useSyncExternalStore(subscribeLedger, ledgerVersion);
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef, useState, type UIEvent } from "react";
+
+interface VirtualRowsOptions {
+  count: number;
+  rowHeight: number;    // fixed height of every row, in px
+  overscan?: number;    // extra rows rendered above and below the viewport
+}
+
+/**
+ * Windowing for long lists in a scroll container: only the rows in (or near)
+ * the viewport are rendered, with spacers standing in for the rest
+ */
+export function useVirtualRows({ count, rowHeight, overscan = 10 }: VirtualRowsOptions) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    setViewportHeight(el.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  const onScroll = useCallback((e: UIEvent<HTMLDivElement>) => {
+    setScrollTop(e.currentTarget.scrollTop);
+  }, []);
+
+  // Before the container is measured, render one screenful
+  const visibleRows = Math.ceil((viewportHeight || window.innerHeight) / rowHeight);
+  const start = Math.min(count, Math.max(0, Math.floor(scrollTop / rowHeight) - overscan));
+  const end = Math.min(count, start + visibleRows + overscan * 2);
+
+  return {
+    containerRef,
+    onScroll,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (count - end) * rowHeight,
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { ParseResult, Transaction } from './parsers/adcb';
+import { groupByAccount, type AccountSource } from './accounts';
+import { withImportIds } from './import-ids';
+
+const IBAN = 'AE07 0260 0010 1234 5678 901';
+
+const tx = (date: string, payee: string, amount: number, balance: number): Transaction => ({
+  date,
+  payee,
+  memo: '',
+  amount,
+  originalDate: date,
+  balance,
+});
+
+function statement(
+  fileName: string,
+  transactions: Transaction[],
+  balances: { opening: number; closing: number },
+  iban = IBAN
+): AccountSource {
+  const parsed: ParseResult = {
+    bankName: 'Emirates NBD',
+    statementType: 'Account Statement',
+    transactions,
+    metadata: { iban },
+    errors: [],
+    openingBalance: balances.opening,
+    closingBalance: balances.closing,
+  };
+  const result = withImportIds(parsed, { name: fileName, size: 1024, lastModified: 0 });
+  return { id: fileName, fileName, result, transactions: result.transactions };
+}
+
+const january = statement('january.pdf', [
+  tx('2026-01-05', 'CARREFOUR', -100, 900),
+  tx('2026-01-25', 'SALARY', 500, 1400),
+  tx('2026-01-31', 'ENOC', -50, 1350),
+], { opening: 1000, closing: 1350 });
+
+// Starts on January's last day; the duplicate review dropped its copy of
+// the shared ENOC row
+const februaryParsed = statement('february.pdf', [
+  tx('2026-01-31', 'ENOC', -50, 1350),
+  tx('2026-02-10', 'DEWA', -200, 1150),
+], { opening: 1400, closing: 1150 });
+const february = { ...februaryParsed, transactions: februaryParsed.transactions.slice(1) };
+
+describe('groupByAccount', () => {
+  it('merges overlapping statements of one account into one timeline', () => {
+    const groups = groupByAccount([february, january]);
+    expect(groups).toHaveLength(1);
+
+    const [group] = groups;
+    expect(group.accountKey).toBe('iban:AE070260001012345678901');
+    expect(group.sources.map(s => s.fileName)).toEqual(['january.pdf', 'february.pdf']);
+    expect(group.transactions.map(t => t.payee)).toEqual(['CARREFOUR', 'SALARY', 'ENOC', 'DEWA']);
+    expect(group).toMatchObject({ firstDate: '2026-01-05', lastDate: '2026-02-10' });
+    expect(group.statement.closingBalance).toBe(1150);
+  });
+
+  it('checks the opening balance against the balance where the overlap starts', () => {
+    const [group] = groupByAccount([january, february]);
+    expect(group.boundaries).toEqual([{
+      fromFile: 'january.pdf',
+      toFile: 'february.pdf',
+      overlap: true,
+      expected: 1400,
+      opening: 1400,
+      difference: 0,
+      status: 'ok',
+    }]);
+  });
+
+  it('reports a mismatch when a statement in between is missing', () => {
+    const april = statement('april.pdf', [
+      tx('2026-04-02', 'RENT', -800, 2200),
+    ], { opening: 3000, closing: 2200 });
+    const [group] = groupByAccount([january, february, april]);
+    expect(group.boundaries[1]).toEqual({
+      fromFile: 'february.pdf',
+      toFile: 'april.pdf',
+      overlap: false,
+      expected: 1150,
+      opening: 3000,
+      difference: 1850,
+      status: 'mismatch',
+    });
+  });
+
+  it('numbers an overlapping row kept in both statements apart', () => {
+    const [group] = groupByAccount([january, februaryParsed]);
+    expect(group.transactions.filter(t => t.payee === 'ENOC').map(t => t.importId)).toEqual([
+      'YNAB:-50000:2026-01-31:1',
+      'YNAB:-50000:2026-01-31:2',
+    ]);
+  });
+
+  it('keeps other accounts in their own group', () => {
+    const savings = statement('savings.pdf', [
+      tx('2026-01-15', 'INTEREST', 10, 5010),
+    ], { opening: 5000, closing: 5010 }, 'AE07 0260 0010 9999 8888 777');
+    const groups = groupByAccount([january, savings, february]);
+    expect(groups.map(g => g.sources.map(s => s.fileName))).toEqual([
+      ['january.pdf', 'february.pdf'],
+      ['savings.pdf'],
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Account View
+ *
+ * Groups the uploaded statements by account (IBAN, account number or
+ * card number, via the account key) so consecutive statements of one
+ * account — three monthly ENBD PDFs, say — export as one continuous
+ * file instead of one file per statement.
+ *
+ * Statements are ordered by their first transaction date and their rows
+ * merged into one timeline, keeping each statement's own order within a
+ * day. Rows shared by overlapping statements are removed upstream by the
+ * duplicate review, so only the copies the user kept arrive here.
+ *
+ * At each period boundary the next statement's opening balance is checked
+ * against the previous statement: its closing balance, or, when the
+ * periods overlap, its running balance just before the next one starts.
+ * A mismatch usually means a statement in between is missing.
+ */
+
+import type { ParseResult, Transaction } from './parsers/adcb';
+import { reconcile } from './reconcile';
+import type { ExportStatement } from './ynab-export';
+
+export interface AccountSource {
+  id: string;
+  fileName: string;
+  result: ParseResult;              // as parsed, for the printed balances
+  transactions: Transaction[];      // what this statement exports on its own
+}
+
+export interface AccountBoundary {
+  fromFile: string;
+  toFile: string;
+  overlap: boolean;                 // the next statement starts on or before the previous one's last day
+  expected?: number;                // previous statement's balance at the start of the next
+  opening?: number;                 // next statement's opening balance
+  difference?: number;              // opening - expected
+  status: 'ok' | 'mismatch' | 'unavailable';
+}
+
+export interface AccountGroup {
+  accountKey: string;
+  sources: AccountSource[];         // oldest statement first
+  transactions: Transaction[];      // merged timeline
+  statement: ExportStatement;       // latest statement's details, for the non-CSV formats
+  firstDate?: string;
+  lastDate?: string;
+  boundaries: AccountBoundary[];
+}
+
+const TOLERANCE = 0.005;
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function dateRange(transactions: Transaction[]): { first?: string; last?: string } {
+  const dates = transactions.map(tx => tx.date).sort();
+  return { first: dates[0], last: dates[dates.length - 1] };
+}
+
+// Oldest row first, whichever way round the statement lists them
+function chronological(transactions: Transaction[]): Transaction[] {
+  if (transactions.length > 1 && transactions[0].date > transactions[transactions.length - 1].date) {
+    return transactions.slice().reverse();
+  }
+  return transactions;
+}
+
+// ─── Balances ───────────────────────────────────────────────────
+
+/** The statement's balance at the start of `date`, from its opening balance and rows before that day. */
+function balanceBefore(result: ParseResult, openingBalance: number, date: string): number {
+  let balance = openingBalance;
+  for (const tx of chronological(result.transactions)) {
+    if (tx.date >= date) break;
+    balance = tx.balance ?? round2(balance + tx.amount);
+  }
+  return balance;
+}
+
+function checkBoundary(previous: AccountSource, next: AccountSource): AccountBoundary {
+  const before = reconcile(previous.result);
+  const after = reconcile(next.result);
+  const { last: previousEnd } = dateRange(previous.result.transactions);
+  const { first: nextStart } = dateRange(next.result.transactions);
+  const overlap = !!previousEnd && !!nextStart && previousEnd >= nextStart;
+  const boundary = { fromFile: previous.fileName, toFile: next.fileName, overlap };
+
+  const opening = after.openingBalance;
+  let expected = overlap && before.openingBalance !== undefined
+    ? balanceBefore(previous.result, before.openingBalance, nextStart!)
+    : before.closingBalance;
+  // Sharing only the last day can also be a cut-off in the middle of that day
+  if (
+    overlap && opening !== undefined && before.closingBalance !== undefined
+    && Math.abs(opening - before.closingBalance) <= TOLERANCE
+  ) {
+    expected = before.closingBalance;
+  }
+  if (opening === undefined || expected === undefined) {
+    return { ...boundary, expected, opening, status: 'unavailable' };
+  }
+
+  const difference = round2(opening - expected);
+  return {
+    ...boundary,
+    expected,
+    opening,
+    difference,
+    status: Math.abs(difference) <= TOLERANCE ? 'ok' : 'mismatch',
+  };
+}
+
+// ─── Merging ────────────────────────────────────────────────────
+
+// Import IDs count occurrences within one statement; when the user keeps
+// both copies of an overlapping row, bump the later one so YNAB doesn't
+// silently skip it as already imported
+function uniqueImportIds(transactions: Transaction[]): Transaction[] {
+  const used = new Set<string>();
+  return transactions.map(tx => {
+    if (!tx.importId) return tx;
+    let importId = tx.importId;
+    const match = importId.match(/^(.*):(\d+)$/);
+    for (let occurrence = Number(match?.[2] ?? 1); used.has(importId); occurrence++) {
+      importId = `${match ? match[1] : tx.importId}:${occurrence + 1}`;
+    }
+    used.add(importId);
+    return importId === tx.importId ? tx : { ...tx, importId };
+  });
+}
+
+function mergeTimeline(sources: AccountSource[]): Transaction[] {
+  const rows = sources.flatMap((source, s) =>
+    chronological(source.transactions).map((tx, i) => ({ tx, s, i }))
+  );
+  rows.sort((a, b) => (a.tx.date < b.tx.date ? -1 : a.tx.date > b.tx.date ? 1 : a.s - b.s || a.i - b.i));
+  return uniqueImportIds(rows.map(row => row.tx));
+}
+
+export function groupByAccount(sources: AccountSource[]): AccountGroup[] {
+  const byKey = new Map<string, AccountSource[]>();
+  for (const source of sources) {
+    const key = source.result.accountKey ?? source.id;
+    byKey.set(key, [...(byKey.get(key) ?? []), source]);
+  }
+
+  return Array.from(byKey.entries()).map(([accountKey, members]) => {
+    const ordered = members
+      .map(source => ({ source, range: dateRange(source.result.transactions) }))
+      .sort((a, b) =>
+        (a.range.first ?? '').localeCompare(b.range.first ?? '') || (a.range.last ?? '').localeCompare(b.range.last ?? '')
+      )
+      .map(({ source }) => source);
+
+    const transactions = mergeTimeline(ordered);
+    const latest = ordered[ordered.length - 1].result;
+    const { first, last } = dateRange(transactions);
+
+    return {
+      accountKey,
+      sources: ordered,
+      transactions,
+      statement: {
+        bankName: latest.bankName,
+        statementType: latest.statementType,
+        metadata: latest.metadata,
+        closingBalance: latest.closingBalance,
+      },
+      firstDate: first,
+      lastDate: last,
+      boundaries: ordered.slice(1).map((source, i) => checkBoundary(ordered[i], source)),
+    };
+  });
+}
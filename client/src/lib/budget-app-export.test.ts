@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import type { Transaction } from './parsers/adcb';
+import { fireflyImportConfig, toActualCSV, toFireflyCSV, toLunchMoneyCSV } from './budget-app-export';
+import { DEFAULT_FX_MEMO_TEMPLATE, type ExportStatement, type YNABExportOptions } from './ynab-export';
+
+// The importers read these files by header and position, so the output is
+// compared as exact strings rather than parsed back
+
+const statement: ExportStatement = {
+  bankName: 'Emirates NBD',
+  statementType: 'Account Statement',
+  metadata: { iban: 'AE07 0260 0010 1234 5678 901', accountNumber: '1012-3456-78901' },
+};
+
+const transactions: Transaction[] = [
+  {
+    date: '2026-01-05',
+    payee: 'Carrefour',
+    memo: 'POS 1234',
+    amount: -120.5,
+    originalDate: '05/01/2026',
+    category: 'Groceries',
+    importId: 'YNAB:-120500:2026-01-05:1',
+  },
+  {
+    date: '2026-01-06',
+    payee: 'Noon, Dubai',
+    memo: 'Order "A-17", gift',
+    amount: -183.59,
+    originalDate: '06/01/2026',
+    foreignAmount: -49.99,
+    foreignCurrency: 'USD',
+    fxRate: 3.6725,
+    importId: 'YNAB:-183590:2026-01-06:1',
+  },
+  {
+    date: '2026-01-25',
+    payee: 'Salary',
+    memo: '',
+    amount: 15000,
+    originalDate: '25/01/2026',
+    category: 'Inflow: Ready to Assign',
+    importId: 'YNAB:15000000:2026-01-25:1',
+  },
+];
+
+const options: YNABExportOptions = { fxMemoTemplate: DEFAULT_FX_MEMO_TEMPLATE, categoryInMemo: true };
+
+describe('toActualCSV', () => {
+  it('writes ISO dates, signed amounts and quotes commas and quotes', () => {
+    expect(toActualCSV(transactions, statement, options)).toBe([
+      'Date,Payee,Notes,Category,Amount',
+      '2026-01-05,Carrefour,POS 1234,Groceries,-120.50',
+      '2026-01-06,"Noon, Dubai","Order ""A-17"", gift · USD 49.99 @ 3.6725",,-183.59',
+      '2026-01-25,Salary,,Inflow: Ready to Assign,15000.00',
+      '',
+    ].join('\n'));
+  });
+
+  it('leaves the category blank when categories are off', () => {
+    const csv = toActualCSV(transactions.slice(0, 1), statement, { categories: false });
+    expect(csv).toBe('Date,Payee,Notes,Category,Amount\n2026-01-05,Carrefour,POS 1234,,-120.50\n');
+  });
+});
+
+describe('toFireflyCSV', () => {
+  it('writes every column, with the foreign amount and the account numbers', () => {
+    expect(toFireflyCSV(transactions, statement, options)).toBe([
+      'Date,Description,Opposing account,Amount,Currency,Foreign amount,Foreign currency,Category,Notes,External ID,IBAN,Account number',
+      '2026-01-05,Carrefour,Carrefour,-120.50,AED,,,Groceries,POS 1234,YNAB:-120500:2026-01-05:1,AE070260001012345678901,1012345678901',
+      '2026-01-06,"Noon, Dubai","Noon, Dubai",-183.59,AED,-49.99,USD,,"Order ""A-17"", gift · USD 49.99 @ 3.6725",'
+        + 'YNAB:-183590:2026-01-06:1,AE070260001012345678901,1012345678901',
+      '2026-01-25,Salary,Salary,15000.00,AED,,,Inflow: Ready to Assign,,YNAB:15000000:2026-01-25:1,AE070260001012345678901,1012345678901',
+      '',
+    ].join('\n'));
+  });
+
+  it('takes the currency from the statement', () => {
+    const usd = { ...statement, metadata: { ...statement.metadata, currency: 'USD' } };
+    expect(toFireflyCSV(transactions.slice(2), usd, options).split('\n')[1]).toBe(
+      '2026-01-25,Salary,Salary,15000.00,USD,,,Inflow: Ready to Assign,,YNAB:15000000:2026-01-25:1,AE070260001012345678901,1012345678901'
+    );
+  });
+});
+
+describe('fireflyImportConfig', () => {
+  it('assigns each column its importer role and dedupes on the external ID', () => {
+    expect(fireflyImportConfig()).toBe(JSON.stringify({
+      version: 3,
+      source: 'uae2ynab',
+      flow: 'file',
+      content_type: 'csv',
+      date: 'Y-m-d',
+      delimiter: 'comma',
+      headers: true,
+      rules: true,
+      skip_form: false,
+      add_import_tag: true,
+      default_account: 0,
+      roles: [
+        'date_transaction',
+        'description',
+        'opposing-name',
+        'amount',
+        'currency-code',
+        'amount_foreign',
+        'foreign-currency-code',
+        'category-name',
+        'note',
+        'external-id',
+        'account-iban',
+        'account-number',
+      ],
+      do_mapping: [false, false, false, false, false, false, false, false, false, false, false, false],
+      mapping: {},
+      duplicate_detection_method: 'cell',
+      ignore_duplicate_lines: true,
+      ignore_duplicate_transactions: true,
+      unique_column_index: 9,
+      unique_column_type: 'external-id',
+    }, null, 2) + '\n');
+  });
+});
+
+describe('toLunchMoneyCSV', () => {
+  it('writes expenses as positive amounts and a lowercase currency', () => {
+    expect(toLunchMoneyCSV(transactions, statement, options)).toBe([
+      'date,payee,amount,currency,category,notes',
+      '2026-01-05,Carrefour,120.50,aed,Groceries,POS 1234',
+      '2026-01-06,"Noon, Dubai",183.59,aed,,"Order ""A-17"", gift · USD 49.99 @ 3.6725"',
+      '2026-01-25,Salary,-15000.00,aed,Inflow: Ready to Assign,',
+      '',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Budget App Exports
+ *
+ * CSV layouts for budgeting tools other than YNAB. Each layout is a
+ * list of columns, so the header and the per-row value sit side by
+ * side and the README table can be checked against this file:
+ *
+ * Actual Budget — CSV import (Actual's OFX import works too)
+ *   Date      YYYY-MM-DD
+ *   Payee
+ *   Notes     memo, plus the original currency when enabled
+ *   Category  suggested or chosen category, may be blank
+ *   Amount    signed, negative for outflows, e.g. -120.50
+ *
+ * Firefly III — Data Importer, CSV plus an import configuration JSON
+ *   Date, Description (payee), Opposing account (payee), Amount (signed),
+ *   Currency, Foreign amount, Foreign currency, Category, Notes,
+ *   External ID (import ID, for duplicate detection), IBAN, Account number
+ *   (account or card number). The JSON assigns each column its importer role.
+ *
+ * Lunch Money — CSV import
+ *   date      YYYY-MM-DD
+ *   payee
+ *   amount    Lunch Money's sign: positive for expenses, negative for income
+ *   currency  lowercase ISO code, e.g. aed
+ *   category
+ *   notes
+ */
+
+import type { Transaction } from './parsers/adcb';
+import { exportMemo, type ExportStatement, type YNABExportOptions } from './ynab-export';
+
+interface CSVColumn {
+  header: string;
+  value: (tx: Transaction, statement: ExportStatement, options: YNABExportOptions) => string;
+}
+
+interface FireflyColumn extends CSVColumn {
+  role: string;   // Firefly III Data Importer column role
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toCSV(
+  columns: CSVColumn[],
+  transactions: Transaction[],
+  statement: ExportStatement,
+  options: YNABExportOptions
+): string {
+  const lines = [columns.map(c => csvCell(c.header)).join(',')];
+  for (const tx of transactions) {
+    lines.push(columns.map(c => csvCell(c.value(tx, statement, options))).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+// These formats have a category column, so the category isn't repeated in the notes
+const notes = (tx: Transaction, options: YNABExportOptions) => exportMemo(tx, { ...options, categoryInMemo: false });
+const category = (tx: Transaction, options: YNABExportOptions) => ((options.categories ?? true) ? tx.category ?? '' : '');
+const currency = (statement: ExportStatement) => statement.metadata['currency'] || 'AED';
+const compact = (value: string | undefined) => (value ?? '').replace(/[\s-]/g, '');
+
+// ─── Actual Budget ──────────────────────────────────────────────
+
+export const ACTUAL_COLUMNS: CSVColumn[] = [
+  { header: 'Date', value: tx => tx.date },
+  { header: 'Payee', value: tx => tx.payee },
+  { header: 'Notes', value: (tx, _, options) => notes(tx, options) },
+  { header: 'Category', value: (tx, _, options) => category(tx, options) },
+  { header: 'Amount', value: tx => tx.amount.toFixed(2) },
+];
+
+export function toActualCSV(
+  transactions: Transaction[],
+  statement: ExportStatement,
+  options: YNABExportOptions = {}
+): string {
+  return toCSV(ACTUAL_COLUMNS, transactions, statement, options);
+}
+
+// ─── Firefly III ────────────────────────────────────────────────
+
+export const FIREFLY_COLUMNS: FireflyColumn[] = [
+  { header: 'Date', role: 'date_transaction', value: tx => tx.date },
+  { header: 'Description', role: 'description', value: tx => tx.payee },
+  { header: 'Opposing account', role: 'opposing-name', value: tx => tx.payee },
+  { header: 'Amount', role: 'amount', value: tx => tx.amount.toFixed(2) },
+  { header: 'Currency', role: 'currency-code', value: (_, statement) => currency(statement) },
+  { header: 'Foreign amount', role: 'amount_foreign', value: tx => tx.foreignAmount?.toFixed(2) ?? '' },
+  { header: 'Foreign currency', role: 'foreign-currency-code', value: tx => tx.foreignCurrency ?? '' },
+  { header: 'Category', role: 'category-name', value: (tx, _, options) => category(tx, options) },
+  { header: 'Notes', role: 'note', value: (tx, _, options) => notes(tx, options) },
+  { header: 'External ID', role: 'external-id', value: tx => tx.importId ?? '' },
+  { header: 'IBAN', role: 'account-iban', value: (_, { metadata }) => compact(metadata['iban']) },
+  {
+    header: 'Account number',
+    role: 'account-number',
+    value: (_, { metadata }) => compact(metadata['accountNumber'] || metadata['cardNumber'] || metadata['cardLastFour']),
+  },
+];
+
+export function toFireflyCSV(
+  transactions: Transaction[],
+  statement: ExportStatement,
+  options: YNABExportOptions = {}
+): string {
+  return toCSV(FIREFLY_COLUMNS, transactions, statement, options);
+}
+
+/**
+ * Data Importer configuration for the Firefly CSV. The asset account is
+ * matched by IBAN or account number; the importer's form asks for a default
+ * when no account has that number.
+ */
+export function fireflyImportConfig(): string {
+  const config = {
+    version: 3,
+    source: 'uae2ynab',
+    flow: 'file',
+    content_type: 'csv',
+    date: 'Y-m-d',
+    delimiter: 'comma',
+    headers: true,
+    rules: true,
+    skip_form: false,
+    add_import_tag: true,
+    default_account: 0,
+    roles: FIREFLY_COLUMNS.map(c => c.role),
+    do_mapping: FIREFLY_COLUMNS.map(() => false),
+    mapping: {},
+    duplicate_detection_method: 'cell',
+    ignore_duplicate_lines: true,
+    ignore_duplicate_transactions: true,
+    unique_column_index: FIREFLY_COLUMNS.findIndex(c => c.role === 'external-id'),
+    unique_column_type: 'external-id',
+  };
+  return JSON.stringify(config, null, 2) + '\n';
+}
+
+// ─── Lunch Money ────────────────────────────────────────────────
+
+export const LUNCH_MONEY_COLUMNS: CSVColumn[] = [
+  { header: 'date', value: tx => tx.date },
+  { header: 'payee', value: tx => tx.payee },
+  { header: 'amount', value: tx => (-tx.amount).toFixed(2) },
+  { header: 'currency', value: (_, statement) => currency(statement).toLowerCase() },
+  { header: 'category', value: (tx, _, options) => category(tx, options) },
+  { header: 'notes', value: (tx, _, options) => notes(tx, options) },
+];
+
+export function toLunchMoneyCSV(
+  transactions: Transaction[],
+  statement: ExportStatement,
+  options: YNABExportOptions = {}
+): string {
+  return toCSV(LUNCH_MONEY_COLUMNS, transactions, statement, options);
+}
@@ -0,0 +1,83 @@
+/**
+ * Category Suggestions
+ *
+ * Suggests a YNAB category name for each transaction from, in order:
+ *   1. a payee rule that sets a category,
+ *   2. the category the user last picked for the same payee,
+ *   3. the merchant dictionary.
+ *
+ * Choices made in the preview table are learned per payee and stored
+ * in this browser, so the next statement starts pre-filled.
+ */
+
+import type { Transaction } from './parsers/adcb';
+import { findMerchant, MERCHANTS } from './merchants';
+
+const HISTORY_KEY = 'uae2ynab:category-history';
+
+export type CategorySource = 'rule' | 'history' | 'dictionary';
+
+export interface CategorySuggestion {
+  category: string;
+  source: CategorySource;
+}
+
+// Normalised payee → category last chosen for it
+type CategoryHistory = Record<string, string>;
+
+let history: CategoryHistory | null = null;
+
+function payeeKey(payee: string): string {
+  return payee.toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim();
+}
+
+function loadHistory(): CategoryHistory {
+  if (history) return history;
+  try {
+    history = JSON.parse(localStorage.getItem(HISTORY_KEY) ?? '{}');
+  } catch {
+    history = {};
+  }
+  return history!;
+}
+
+// ─── Suggestions ────────────────────────────────────────────────
+
+export function suggestCategory(tx: Transaction): CategorySuggestion | undefined {
+  if (tx.category) return { category: tx.category, source: 'rule' };
+
+  const learned = loadHistory()[payeeKey(tx.payee)];
+  if (learned) return { category: learned, source: 'history' };
+
+  const merchant = findMerchant(tx.payee) ?? (tx.rawDescription ? findMerchant(tx.rawDescription) : undefined);
+  if (merchant) return { category: merchant.category, source: 'dictionary' };
+
+  return undefined;
+}
+
+export function withSuggestedCategory(tx: Transaction): Transaction {
+  const suggestion = suggestCategory(tx);
+  return suggestion ? { ...tx, category: suggestion.category } : tx;
+}
+
+/** Every category name the user has picked or the dictionary knows, for autocomplete */
+export function knownCategories(): string[] {
+  const names = new Set(MERCHANTS.map(m => m.category));
+  Object.values(loadHistory()).forEach(c => names.add(c));
+  return Array.from(names).sort((a, b) => a.localeCompare(b));
+}
+
+// ─── Learning ───────────────────────────────────────────────────
+
+export function learnCategory(payee: string, category: string): void {
+  const key = payeeKey(payee);
+  if (!key) return;
+  const all = loadHistory();
+  if (category) all[key] = category;
+  else delete all[key];
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(all));
+  } catch {
+    // Storage unavailable: the choice is learned for this session only
+  }
+}
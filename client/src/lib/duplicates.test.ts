@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { ParseResult, Transaction } from './parsers/adcb';
+import { defaultDrops, findDuplicateGroups, memberKey, type DuplicateSource } from './duplicates';
+
+const tx = (date: string, payee: string, amount: number): Transaction => ({
+  date,
+  payee,
+  memo: '',
+  amount,
+  originalDate: date,
+});
+
+const source = (fileName: string, transactions: Transaction[], accountKey = 'Emirates NBD:card:7337'): DuplicateSource => {
+  const result: ParseResult = {
+    bankName: 'Emirates NBD',
+    statementType: 'Credit Card Statement',
+    transactions,
+    metadata: { cardLastFour: accountKey.slice(-4) },
+    errors: [],
+    accountKey,
+  };
+  return { id: fileName, fileName, result };
+};
+
+// A card statement, the XLSX export of the same card and a mid-cycle
+// export that overlaps both
+const pdf = source('card.pdf', [
+  tx('2026-01-05', 'CARREFOUR MOE DUBAI', -120.5),
+  tx('2026-01-07', 'NOON.COM', -89),
+  tx('2026-01-09', 'ENOC 1043', -150),
+]);
+const xlsx = source('card.xlsx', [
+  tx('2026-01-06', 'CARREFOUR MOE', -120.5),
+  tx('2026-01-09', 'ENOC 1043 DUBAI', -150),
+]);
+const midCycle = source('mid-cycle.csv', [
+  tx('2026-01-08', 'NOON COM DUBAI', -89),
+  tx('2026-01-05', 'CARREFOUR MOE DUBAI AE', -120.5),
+  tx('2026-01-12', 'TALABAT', -64),
+]);
+
+describe('findDuplicateGroups', () => {
+  it('groups one purchase found in all three files', () => {
+    const groups = findDuplicateGroups([pdf, xlsx, midCycle]);
+    const carrefour = groups.find(g => g.members.some(m => m.sourceId === 'card.pdf' && m.index === 0));
+    expect(carrefour?.members).toEqual([
+      { sourceId: 'card.pdf', fileName: 'card.pdf', index: 0 },
+      { sourceId: 'card.xlsx', fileName: 'card.xlsx', index: 0 },
+      { sourceId: 'mid-cycle.csv', fileName: 'mid-cycle.csv', index: 1 },
+    ]);
+  });
+
+  it('joins copies that only match through a third file', () => {
+    // The early and late rows are too far apart to match each other directly
+    const early = source('early', [tx('2026-01-03', 'IKEA', -300)]);
+    const middle = source('middle', [tx('2026-01-05', 'IKEA DUBAI', -300)]);
+    const late = source('late', [tx('2026-01-07', 'IKEA DUBAI FESTIVAL', -300)]);
+    const groups = findDuplicateGroups([early, middle, late], { dateToleranceDays: 2, minPayeeSimilarity: 0.5 });
+    expect(groups).toHaveLength(1);
+    expect(groups[0].members.map(m => m.sourceId)).toEqual(['early', 'middle', 'late']);
+  });
+
+  it('finds every group across the three files and nothing else', () => {
+    const groups = findDuplicateGroups([pdf, xlsx, midCycle]);
+    expect(groups.map(g => g.members.map(m => memberKey(m.sourceId, m.index))).sort()).toEqual([
+      ['card.pdf:0', 'card.xlsx:0', 'mid-cycle.csv:1'],
+      ['card.pdf:1', 'mid-cycle.csv:0'],
+      ['card.pdf:2', 'card.xlsx:1'],
+    ]);
+  });
+
+  it('keeps the earliest uploaded copy by default', () => {
+    const drops = defaultDrops(findDuplicateGroups([pdf, xlsx, midCycle]));
+    expect([...drops].sort()).toEqual(['card.xlsx:0', 'card.xlsx:1', 'mid-cycle.csv:0', 'mid-cycle.csv:1']);
+  });
+
+  it('pairs each row at most once, so two equal purchases stay apart', () => {
+    const twice = source('twice', [tx('2026-01-05', 'ADNOC', -100), tx('2026-01-05', 'ADNOC', -100)]);
+    const once = source('once', [tx('2026-01-05', 'ADNOC', -100)]);
+    const groups = findDuplicateGroups([twice, once]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].members.map(m => memberKey(m.sourceId, m.index))).toEqual(['twice:0', 'once:0']);
+  });
+
+  it('does not compare statements of different accounts', () => {
+    const otherCard = source('other', [tx('2026-01-05', 'CARREFOUR MOE DUBAI', -120.5)], 'Emirates NBD:card:1234');
+    expect(findDuplicateGroups([pdf, otherCard])).toEqual([]);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Cross-File Duplicate Detection
+ *
+ * The same transactions often arrive twice in one session: an ENBD card
+ * PDF and the XLSX export for the same card, or two account statements
+ * whose periods overlap. Transactions from different files are treated
+ * as duplicates when they belong to the same account, have the same
+ * amount, fall within a few days of each other (posting vs transaction
+ * date) and have similar payees.
+ *
+ * Matches are grouped so the UI can keep one copy and drop the others.
+ */
+
+import type { ParseResult } from './parsers/adcb';
+
+export interface DuplicateSource {
+  id: string;               // stable id of the uploaded file
+  fileName: string;
+  result: ParseResult;
+}
+
+export interface DuplicateMember {
+  sourceId: string;
+  fileName: string;
+  index: number;            // position in result.transactions
+}
+
+export interface DuplicateGroup {
+  key: string;
+  members: DuplicateMember[];
+}
+
+export interface DuplicateOptions {
+  dateToleranceDays: number;
+  minPayeeSimilarity: number;   // 0..1, bigram Dice coefficient
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateOptions = {
+  dateToleranceDays: 3,
+  minPayeeSimilarity: 0.5,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function memberKey(sourceId: string, index: number): string {
+  return `${sourceId}:${index}`;
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / DAY_MS;
+}
+
+function normalizePayee(payee: string): string {
+  return payee.toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim();
+}
+
+function bigrams(text: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  const compact = text.replace(/\s+/g, '');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.substring(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/** Dice coefficient over character bigrams; 1 when one payee contains the other */
+export function payeeSimilarity(a: string, b: string): number {
+  const x = normalizePayee(a);
+  const y = normalizePayee(b);
+  if (!x || !y) return 0;
+  if (x === y || x.includes(y) || y.includes(x)) return 1;
+
+  const gx = bigrams(x);
+  const gy = bigrams(y);
+  let overlap = 0;
+  let total = 0;
+  gx.forEach((count, gram) => {
+    overlap += Math.min(count, gy.get(gram) ?? 0);
+    total += count;
+  });
+  gy.forEach(count => { total += count; });
+  return total === 0 ? 0 : (2 * overlap) / total;
+}
+
+// A statement without an account or card number may still be the same
+// account as a numbered one of the same bank; two unnumbered statements
+// could be any two accounts, so they are never compared
+function hasIdentifier(result: ParseResult): boolean {
+  const m = result.metadata;
+  return !!(m['iban'] || m['accountNumber'] || m['cardNumber'] || m['cardLastFour']);
+}
+
+function sameAccount(a: ParseResult, b: ParseResult): boolean {
+  if (a.accountKey && a.accountKey === b.accountKey) return true;
+  if (a.bankName !== b.bankName || a.statementType !== b.statementType) return false;
+  return hasIdentifier(a) !== hasIdentifier(b);
+}
+
+export function findDuplicateGroups(
+  sources: DuplicateSource[],
+  options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS
+): DuplicateGroup[] {
+  // Union-find over member keys
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    let root = key;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(key, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    parent.set(find(b), find(a));
+  };
+
+  const members = new Map<string, DuplicateMember>();
+
+  for (let s = 0; s < sources.length; s++) {
+    for (let t = s + 1; t < sources.length; t++) {
+      const a = sources[s];
+      const b = sources[t];
+      if (!sameAccount(a.result, b.result)) continue;
+
+      // Each transaction pairs with at most one in the other file, so two
+      // genuine identical purchases on the same day aren't collapsed
+      const taken = new Set<number>();
+      a.result.transactions.forEach((tx, i) => {
+        let best = -1;
+        let bestDays = Infinity;
+        b.result.transactions.forEach((other, j) => {
+          if (taken.has(j) || Math.round(other.amount * 100) !== Math.round(tx.amount * 100)) return;
+          const days = daysBetween(tx.date, other.date);
+          if (days > options.dateToleranceDays || days >= bestDays) return;
+          if (payeeSimilarity(tx.payee, other.payee) < options.minPayeeSimilarity) return;
+          best = j;
+          bestDays = days;
+        });
+        if (best === -1) return;
+
+        taken.add(best);
+        const keyA = memberKey(a.id, i);
+        const keyB = memberKey(b.id, best);
+        members.set(keyA, { sourceId: a.id, fileName: a.fileName, index: i });
+        members.set(keyB, { sourceId: b.id, fileName: b.fileName, index: best });
+        if (!parent.has(keyA)) parent.set(keyA, keyA);
+        if (!parent.has(keyB)) parent.set(keyB, keyB);
+        union(keyA, keyB);
+      });
+    }
+  }
+
+  const groups = new Map<string, DuplicateMember[]>();
+  members.forEach((member, key) => {
+    const root = find(key);
+    groups.set(root, [...(groups.get(root) ?? []), member]);
+  });
+
+  const order = new Map(sources.map((s, i) => [s.id, i]));
+  return Array.from(groups, ([key, list]) => ({
+    key,
+    members: list.sort((x, y) => order.get(x.sourceId)! - order.get(y.sourceId)! || x.index - y.index),
+  }));
+}
+
+/** By default the copy from the earliest uploaded file is kept */
+export function defaultDrops(groups: DuplicateGroup[]): Set<string> {
+  const drops = new Set<string>();
+  for (const group of groups) {
+    group.members.slice(1).forEach(m => drops.add(memberKey(m.sourceId, m.index)));
+  }
+  return drops;
+}
@@ -0,0 +1,40 @@
+/**
+ * Manual Edits
+ *
+ * Corrections made in the review table before export: payee, memo,
+ * date and amount overrides, or deleting the row outright. Edits are
+ * kept apart from the parsed transaction so the original values can
+ * be shown next to the edited ones and restored.
+ */
+
+import type { Transaction } from './parsers/adcb';
+
+export type EditableField = 'payee' | 'memo' | 'date' | 'amount';
+
+export type TransactionEdit = Partial<Pick<Transaction, EditableField>> & {
+  deleted?: boolean;
+};
+
+export const EDITABLE_FIELDS: EditableField[] = ['date', 'payee', 'memo', 'amount'];
+
+export function applyEdit(tx: Transaction, edit: TransactionEdit | undefined): Transaction {
+  if (!edit) return tx;
+  const { deleted: _deleted, ...fields } = edit;
+  return { ...tx, ...fields };
+}
+
+/** Fields whose edited value differs from the parsed one */
+export function changedFields(tx: Transaction, edit: TransactionEdit | undefined): EditableField[] {
+  if (!edit) return [];
+  return EDITABLE_FIELDS.filter(field => edit[field] !== undefined && edit[field] !== tx[field]);
+}
+
+/** Merges a change into an edit, dropping overrides that are back to the parsed value */
+export function mergeEdit(tx: Transaction, edit: TransactionEdit | undefined, change: TransactionEdit): TransactionEdit {
+  const next: TransactionEdit = { ...edit, ...change };
+  for (const field of EDITABLE_FIELDS) {
+    if (next[field] === tx[field]) delete next[field];
+  }
+  if (!next.deleted) delete next.deleted;
+  return next;
+}
@@ -0,0 +1,145 @@
+/**
+ * Export Formats
+ *
+ * One place that knows every download format: its label, file
+ * extension and MIME type, and which writer renders it (YNAB CSV,
+ * QIF, OFX, a Beancount / Ledger journal, or the CSV layouts of other
+ * budgeting apps). Single files download directly; several files, or
+ * a format that needs a companion file, go into one ZIP.
+ */
+
+import JSZip from 'jszip';
+import { fireflyImportConfig, toActualCSV, toFireflyCSV, toLunchMoneyCSV } from './budget-app-export';
+import { beancountMain, journalAccountKeys, toJournal, type JournalScope, type JournalSettings } from './journal-export';
+import { toOFX } from './ofx-export';
+import { toQIF } from './qif-export';
+import {
+  downloadBlob,
+  isCardStatement,
+  toYNABCSV,
+  type ExportStatement,
+  type FileExportEntry,
+  type YNABExportOptions,
+  type YNABFormat,
+} from './ynab-export';
+
+export type ExportFormat =
+  | YNABFormat
+  | 'qif'
+  | 'ofx'
+  | 'beancount'
+  | 'ledger'
+  | 'actual'
+  | 'firefly'
+  | 'lunchmoney';
+
+export type ExportGroup = 'YNAB' | 'Files' | 'Plain-text accounting' | 'Other apps';
+
+export interface ExportOptions extends YNABExportOptions {
+  journal?: JournalSettings;   // Beancount and Ledger account names
+  journalScope?: JournalScope;  // set for journals written into one ZIP
+}
+
+export interface ExportFileType {
+  label: string;
+  group: ExportGroup;
+  extension: string;   // without dot
+  mimeType: string;
+  suffix: string;      // appended to the statement's file name
+  categoryField?: boolean;   // has its own category field instead of a memo prefix
+  companion?: { fileName: string; render: () => string };   // shared by every statement
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFileType> = {
+  'inflow-outflow': { label: 'Inflow / Outflow', group: 'YNAB', extension: 'csv', mimeType: 'text/csv', suffix: '_ynab' },
+  'amount': { label: 'Single Amount', group: 'YNAB', extension: 'csv', mimeType: 'text/csv', suffix: '_ynab' },
+  'qif': { label: 'QIF', group: 'Files', extension: 'qif', mimeType: 'application/qif', suffix: '', categoryField: true },
+  'ofx': { label: 'OFX', group: 'Files', extension: 'ofx', mimeType: 'application/x-ofx', suffix: '' },
+  'beancount': { label: 'Beancount', group: 'Plain-text accounting', extension: 'beancount', mimeType: 'text/plain', suffix: '' },
+  'ledger': { label: 'Ledger / hledger', group: 'Plain-text accounting', extension: 'journal', mimeType: 'text/plain', suffix: '' },
+  'actual': {
+    label: 'Actual Budget', group: 'Other apps', extension: 'csv', mimeType: 'text/csv', suffix: '_actual', categoryField: true,
+  },
+  'firefly': {
+    label: 'Firefly III', group: 'Other apps', extension: 'csv', mimeType: 'text/csv', suffix: '_firefly', categoryField: true,
+    companion: { fileName: 'firefly-import-config.json', render: fireflyImportConfig },
+  },
+  'lunchmoney': {
+    label: 'Lunch Money', group: 'Other apps', extension: 'csv', mimeType: 'text/csv', suffix: '_lunchmoney', categoryField: true,
+  },
+};
+
+const UNKNOWN_STATEMENT: ExportStatement = { bankName: 'Unknown', statementType: 'Unknown', metadata: {} };
+
+export function renderExport(entry: FileExportEntry, format: ExportFormat, options: ExportOptions = {}): string {
+  const statement = entry.statement ?? UNKNOWN_STATEMENT;
+  switch (format) {
+    case 'qif':
+      return toQIF(entry.transactions, isCardStatement(statement) ? 'CCard' : 'Bank', options);
+    case 'ofx':
+      return toOFX(entry.transactions, statement, options);
+    case 'beancount':
+    case 'ledger':
+      return toJournal(entry.transactions, format, statement, entry.accountKey, options.journal, options.journalScope);
+    case 'actual':
+      return toActualCSV(entry.transactions, statement, options);
+    case 'firefly':
+      return toFireflyCSV(entry.transactions, statement, options);
+    case 'lunchmoney':
+      return toLunchMoneyCSV(entry.transactions, statement, options);
+    default:
+      return toYNABCSV(entry.transactions, format, options);
+  }
+}
+
+export function exportFileName(originalFileName: string, format: ExportFormat): string {
+  const { suffix, extension } = EXPORT_FORMATS[format];
+  const baseName = originalFileName.replace(/\.(csv|pdf|xlsx?)$/i, '');
+  return `${baseName}${suffix}.${extension}`;
+}
+
+export async function downloadExport(
+  entry: FileExportEntry,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): Promise<void> {
+  const { companion, mimeType } = EXPORT_FORMATS[format];
+  const fileName = exportFileName(entry.originalFileName, format);
+  if (companion) {
+    await downloadZip([entry], format, options, fileName.replace(/\.\w+$/, '.zip'));
+    return;
+  }
+  const blob = new Blob([renderExport(entry, format, options)], { type: `${mimeType};charset=utf-8;` });
+  downloadBlob(blob, fileName);
+}
+
+export async function downloadZip(
+  entries: FileExportEntry[],
+  format: ExportFormat = 'inflow-outflow',
+  options: ExportOptions = {},
+  zipName: string = 'uae2ynab_export.zip'
+): Promise<void> {
+  const zip = new JSZip();
+
+  // Journals in one ZIP book each transfer once; Beancount opens its accounts in main.beancount
+  const journal = format === 'beancount' || format === 'ledger';
+  const fileOptions: ExportOptions = journal
+    ? { ...options, journalScope: { accountKeys: journalAccountKeys(entries), opens: false } }
+    : options;
+  for (const entry of entries) {
+    zip.file(exportFileName(entry.originalFileName, format), renderExport(entry, format, fileOptions));
+  }
+  const { companion } = EXPORT_FORMATS[format];
+  if (companion) zip.file(companion.fileName, companion.render());
+  if (format === 'beancount') {
+    zip.file('main.beancount', beancountMain(entries.map(entry => ({
+      fileName: exportFileName(entry.originalFileName, format),
+      transactions: entry.transactions,
+      statement: entry.statement ?? UNKNOWN_STATEMENT,
+      accountKey: entry.accountKey,
+    })), options.journal));
+  }
+
+  const blob = await zip.generateAsync({ type: 'blob' });
+  downloadBlob(blob, zipName);
+}
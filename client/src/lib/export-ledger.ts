@@ -0,0 +1,92 @@
+/**
+ * Export Ledger
+ *
+ * Remembers, in this browser's localStorage, which transactions have
+ * already been sent to YNAB (YNAB CSV or API upload), keyed by account
+ * and import ID. The next time an overlapping statement is loaded, those
+ * transactions can be skipped or marked instead of being imported twice.
+ */
+
+import type { Transaction } from './parsers/adcb';
+
+const LEDGER_KEY = 'uae2ynab:export-ledger';
+
+// accountKey → importId → date exported (YYYY-MM-DD)
+type Ledger = Record<string, Record<string, string>>;
+
+export type LedgerMode = 'include' | 'skip' | 'mark';
+
+let cache: Ledger | null = null;
+let version = 0;
+const listeners = new Set<() => void>();
+
+function read(): Ledger {
+  if (cache) return cache;
+  try {
+    cache = JSON.parse(localStorage.getItem(LEDGER_KEY) ?? '{}') as Ledger;
+  } catch {
+    cache = {};
+  }
+  return cache;
+}
+
+function write(ledger: Ledger): void {
+  cache = ledger;
+  version++;
+  try {
+    localStorage.setItem(LEDGER_KEY, JSON.stringify(ledger));
+  } catch {
+    // Storage full or unavailable: the ledger lasts for this session only
+  }
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeLedger(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Changes whenever the ledger is written, for useSyncExternalStore */
+export function ledgerVersion(): number {
+  return version;
+}
+
+export function exportedOn(accountKey: string | undefined, tx: Transaction): string | undefined {
+  if (!accountKey || !tx.importId) return undefined;
+  return read()[accountKey]?.[tx.importId];
+}
+
+export function recordExport(accountKey: string | undefined, transactions: Transaction[]): void {
+  if (!accountKey) return;
+  const ledger = read();
+  const today = new Date().toISOString().slice(0, 10);
+  const account = { ...ledger[accountKey] };
+  for (const tx of transactions) {
+    if (tx.importId && !account[tx.importId]) account[tx.importId] = today;
+  }
+  write({ ...ledger, [accountKey]: account });
+}
+
+export function forgetAccount(accountKey: string): void {
+  const { [accountKey]: _removed, ...rest } = read();
+  write(rest);
+}
+
+/**
+ * Drops or annotates transactions exported in an earlier session.
+ * "mark" appends the export date to the memo so YNAB shows it.
+ */
+export function applyLedger(
+  transactions: Transaction[],
+  accountKey: string | undefined,
+  mode: LedgerMode
+): Transaction[] {
+  if (mode === 'include') return transactions;
+  return transactions.flatMap(tx => {
+    const date = exportedOn(accountKey, tx);
+    if (!date) return [tx];
+    if (mode === 'skip') return [];
+    const note = `previously exported ${date}`;
+    return [{ ...tx, memo: tx.memo ? `${tx.memo} · ${note}` : note }];
+  });
+}
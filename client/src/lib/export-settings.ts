@@ -0,0 +1,49 @@
+/**
+ * Export Settings
+ *
+ * How the YNAB CSV is written: date format, decimal separator, whether
+ * amounts keep two decimals, quoting, line endings and a UTF-8 BOM.
+ * The defaults reproduce the reference YNAB file (DD/MM/YYYY, every
+ * field quoted, trailing zeros dropped, LF). Saved in this browser.
+ */
+
+export type ExportDateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+
+export interface CSVSettings {
+  dateFormat: ExportDateFormat;
+  decimalSeparator: '.' | ',';
+  twoDecimals: boolean;     // "12.50" and "100.00" instead of "12.5" and "100"
+  quoteAll: boolean;        // otherwise only fields that need it are quoted
+  lineEnding: 'lf' | 'crlf';
+  bom: boolean;             // UTF-8 byte order mark, for spreadsheet apps that need it
+}
+
+export const EXPORT_DATE_FORMATS: ExportDateFormat[] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+
+export const DEFAULT_CSV_SETTINGS: CSVSettings = {
+  dateFormat: 'DD/MM/YYYY',
+  decimalSeparator: '.',
+  twoDecimals: false,
+  quoteAll: true,
+  lineEnding: 'lf',
+  bom: false,
+};
+
+const SETTINGS_KEY = 'uae2ynab:export-settings';
+
+export function loadCSVSettings(): CSVSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_CSV_SETTINGS, ...JSON.parse(raw) } : DEFAULT_CSV_SETTINGS;
+  } catch {
+    return DEFAULT_CSV_SETTINGS;
+  }
+}
+
+export function saveCSVSettings(settings: CSVSettings): void {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage may be unavailable (private mode)
+  }
+}
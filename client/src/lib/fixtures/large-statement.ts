@@ -0,0 +1,78 @@
+/**
+ * Large Statement Fixture
+ *
+ * Generates a synthetic ADCB account statement CSV with thousands of
+ * rows, for checking that parsing and the preview table stay fast on
+ * year-long exports. Output is deterministic for a given row count.
+ *
+ * In development, open the app with ?fixture=10000 to load one.
+ */
+
+const PAYEES = [
+  'POS CARREFOUR MOE DUBAI ARE',
+  'POS TALABAT.COM DUBAI',
+  'POS ENOC 1043 ABU DHABI',
+  'SALIK RECHARGE',
+  'DEWA BILL PAYMENT',
+  'ETISALAT-PREPAID',
+  'POS CAREEM RIDE DUBAI',
+  'POS SPINNEYS JUMEIRAH',
+  'ATM CASH WITHDRAWAL',
+  'POS NOON.COM DUBAI',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Small seeded PRNG (mulberry32) so every run produces the same file
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function ddmmyyyy(time: number): string {
+  const d = new Date(time);
+  const dd = String(d.getUTCDate()).padStart(2, '0');
+  const mm = String(d.getUTCMonth() + 1).padStart(2, '0');
+  return `${dd}/${mm}/${d.getUTCFullYear()}`;
+}
+
+export function largeStatementCSV(rows: number = 10_000): string {
+  const next = random(rows);
+  const start = Date.UTC(2024, 0, 1);
+  const perDay = Math.max(1, Math.ceil(rows / 365));
+  let balance = 50_000;
+
+  const lines = [
+    `Account Number: 12345678901001,`,
+    `Statement Period: 01/01/2024 - 31/12/2024,`,
+    `Account Name(s): SYNTHETIC FIXTURE,`,
+    `Posting Date,Value Date,Ref No,Description,Debit Amount,Credit Amount,Balance`,
+  ];
+
+  for (let i = 0; i < rows; i++) {
+    const date = ddmmyyyy(start + Math.floor(i / perDay) * DAY_MS);
+    const isSalary = i % 250 === 0;
+    const amount = isSalary ? 25_000 : Math.round(next() * 50_000) / 100;
+    balance += isSalary ? amount : -amount;
+    const description = isSalary ? 'SALARY TRANSFER' : PAYEES[Math.floor(next() * PAYEES.length)];
+    lines.push([
+      date,
+      date,
+      `REF${String(i).padStart(8, '0')}`,
+      description,
+      isSalary ? '0' : amount.toFixed(2),
+      isSalary ? amount.toFixed(2) : '0',
+      balance.toFixed(2),
+    ].join(','));
+  }
+
+  return lines.join('\n');
+}
+
+export function largeStatementFile(rows: number = 10_000): File {
+  return new File([largeStatementCSV(rows)], `fixture-${rows}-rows.csv`, { type: 'text/csv' });
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { ParseResult, Transaction } from './parsers/adcb';
+import { accountKey, importIds, withImportIds, type FileIdentity } from './import-ids';
+
+const tx = (date: string, payee: string, amount: number): Transaction => ({
+  date,
+  payee,
+  memo: '',
+  amount,
+  originalDate: date,
+});
+
+const result = (metadata: Record<string, string>, transactions: Transaction[] = []): ParseResult => ({
+  bankName: 'Emirates NBD',
+  statementType: 'Account Statement',
+  transactions,
+  metadata,
+  errors: [],
+});
+
+const file: FileIdentity = { name: 'statement.csv', size: 2048, lastModified: 1767225600000 };
+
+const january = [
+  tx('2026-01-05', 'CARREFOUR MOE', -120.5),
+  tx('2026-01-05', 'CARREFOUR MOE', -120.5),
+  tx('2026-01-05', 'ENOC', -120.5),
+  tx('2026-01-25', 'SALARY', 15000),
+];
+
+describe('importIds', () => {
+  it('counts identical amount and date pairs in statement order', () => {
+    expect(importIds(january)).toEqual([
+      'YNAB:-120500:2026-01-05:1',
+      'YNAB:-120500:2026-01-05:2',
+      'YNAB:-120500:2026-01-05:3',
+      'YNAB:15000000:2026-01-25:1',
+    ]);
+  });
+
+  it('gives the same IDs when the statement is imported again', () => {
+    const again = january.map(t => ({ ...t }));
+    expect(importIds(again)).toEqual(importIds(january));
+  });
+
+  it('keeps the IDs of shared rows in a longer statement of the same period', () => {
+    const longer = [tx('2026-01-02', 'DEWA', -450), ...january, tx('2026-02-01', 'RENT', -8000)];
+    expect(importIds(longer).slice(1, 5)).toEqual(importIds(january));
+  });
+});
+
+describe('accountKey', () => {
+  it('prefers the IBAN, without spaces and in capitals', () => {
+    const parsed = result({ iban: 'ae07 0260 0010 1234 5678 901', accountNumber: '1012345678901' });
+    expect(accountKey(parsed, file)).toBe('iban:AE070260001012345678901');
+  });
+
+  it('falls back to the account number, then the card number', () => {
+    expect(accountKey(result({ accountNumber: '1012-3456-78901' }), file)).toBe('Emirates NBD:account:1012345678901');
+    expect(accountKey(result({ cardNumber: '4567 XXXX XXXX 7337' }), file)).toBe('Emirates NBD:card:7337');
+    expect(accountKey(result({ cardLastFour: '7337' }), file)).toBe('Emirates NBD:card:7337');
+  });
+
+  it('names the file for a statement without any number', () => {
+    const key = accountKey(result({}), file);
+    expect(key).toBe('file:Emirates NBD:Account Statement:statement.csv:2048:1767225600000');
+    expect(accountKey(result({}), { ...file })).toBe(key);
+  });
+
+  it('gives another file without a number its own key', () => {
+    const key = accountKey(result({}), file);
+    expect(accountKey(result({}), { ...file, name: 'statement (1).csv' })).not.toBe(key);
+    expect(accountKey(result({}), { ...file, lastModified: file.lastModified + 1 })).not.toBe(key);
+  });
+});
+
+describe('withImportIds', () => {
+  it('stamps the account key and the IDs, the same on every import', () => {
+    const first = withImportIds(result({}, january), file);
+    const second = withImportIds(result({}, january), { ...file });
+    expect(first.accountKey).toBe(second.accountKey);
+    expect(first.transactions.map(t => t.importId)).toEqual(importIds(january));
+    expect(second.transactions).toEqual(first.transactions);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Import IDs
+ *
+ * Gives every parsed transaction a stable identity so overlapping
+ * statements (a card statement and a mid-cycle export, two account
+ * statements sharing a few days) can be recognised on re-import.
+ *
+ * IDs use YNAB's own format, "YNAB:<milliunits>:<date>:<occurrence>",
+ * where occurrence counts identical amount/date pairs in the statement.
+ * Like YNAB, they are only unique within one account, so each statement
+ * also gets an account key built from its IBAN, account or card number.
+ * A statement without any number only stands for its own file.
+ */
+
+import type { ParseResult, Transaction } from './parsers/adcb';
+import { lastFourDigits } from './parsers/common';
+
+export function toMilliunits(amount: number): number {
+  return Math.round(amount * 1000);
+}
+
+export function importIds(transactions: Transaction[]): string[] {
+  const seen = new Map<string, number>();
+  return transactions.map(tx => {
+    const key = `${toMilliunits(tx.amount)}:${tx.date}`;
+    const occurrence = (seen.get(key) ?? 0) + 1;
+    seen.set(key, occurrence);
+    return `YNAB:${key}:${occurrence}`;
+  });
+}
+
+/** What tells one uploaded file from another, across sessions */
+export type FileIdentity = Pick<File, 'name' | 'size' | 'lastModified'>;
+
+/**
+ * Identifies the account a statement belongs to, e.g. "iban:AE07..." or
+ * "Emirates NBD:card:7337". A statement with no number at all (a column
+ * mapping, say) can't be tied to an account: two of them from one bank
+ * may be different accounts, so its key names the file instead. Such
+ * statements are never merged, paired as one account, or share ledger
+ * entries with another file.
+ */
+export function accountKey(
+  result: Pick<ParseResult, 'bankName' | 'statementType' | 'metadata'>,
+  file: FileIdentity
+): string {
+  const { metadata, bankName, statementType } = result;
+  if (metadata['iban']) return `iban:${metadata['iban'].replace(/\s/g, '').toUpperCase()}`;
+  if (metadata['accountNumber']) return `${bankName}:account:${metadata['accountNumber'].replace(/[\s-]/g, '')}`;
+
+  const card = metadata['cardLastFour'] || (metadata['cardNumber'] ? lastFourDigits(metadata['cardNumber']) : '');
+  if (card) return `${bankName}:card:${card}`;
+
+  return `file:${bankName}:${statementType}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+/** Stamps the account key and each transaction's import ID onto a parse result. */
+export function withImportIds(result: ParseResult, file: FileIdentity): ParseResult {
+  const ids = importIds(result.transactions);
+  return {
+    ...result,
+    accountKey: accountKey(result, file),
+    transactions: result.transactions.map((tx, i) => ({ ...tx, importId: ids[i] })),
+  };
+}
@@ -0,0 +1,251 @@
+/**
+ * Journal Export
+ *
+ * Plain-text accounting entries for Beancount and Ledger / hledger.
+ * Each transaction becomes a two-posting entry: the statement's own
+ * account (an asset for bank accounts, a liability for cards) and a
+ * counter account picked from the transaction's category, or a
+ * fallback expense / income account when the payee has none. A matched
+ * transfer posts to the other statement's account instead.
+ *
+ * Beancount files open every account they post to, dated on the first
+ * transaction. In a ZIP the opens go into main.beancount, which includes
+ * each statement's file, and a transfer between two exported statements
+ * is booked once, on the outflow side.
+ *
+ * Amounts are in AED unless configured otherwise. Card spend in another
+ * currency keeps its original amount, priced in AED with `@@`, e.g.
+ * `Expenses:Shopping  49.99 USD @@ 183.59 AED`.
+ */
+
+import type { Transaction, TransferAccount } from './parsers/adcb';
+import { isCardStatement, type ExportStatement } from './ynab-export';
+
+export type JournalFormat = 'beancount' | 'ledger';
+
+export interface JournalSettings {
+  accounts: Record<string, string>;  // account key → journal account, e.g. "Assets:ADCB:Current"
+  expenseAccount: string;            // outflows without a category
+  incomeAccount: string;             // inflows without a category
+  commodity: string;
+}
+
+/** Where the statement's file sits in an export of several statements */
+export interface JournalScope {
+  accountKeys: Set<string>;   // every statement in the same export
+  opens: boolean;             // false when main.beancount opens the accounts
+}
+
+export const DEFAULT_JOURNAL_SETTINGS: JournalSettings = {
+  accounts: {},
+  expenseAccount: 'Expenses:Uncategorized',
+  incomeAccount: 'Income:Uncategorized',
+  commodity: 'AED',
+};
+
+const SETTINGS_KEY = 'uae2ynab:journal-settings';
+
+export function loadJournalSettings(): JournalSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_JOURNAL_SETTINGS, ...JSON.parse(raw) } : DEFAULT_JOURNAL_SETTINGS;
+  } catch {
+    return DEFAULT_JOURNAL_SETTINGS;
+  }
+}
+
+export function saveJournalSettings(settings: JournalSettings): void {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage may be unavailable (private mode)
+  }
+}
+
+// ─── Accounts ───────────────────────────────────────────────────
+
+/**
+ * Turns free text into one account name component that Beancount
+ * accepts (capitalised, letters, digits and dashes): "Eating out" → "EatingOut"
+ */
+export function accountComponent(text: string): string {
+  const words = text.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const name = words.map(w => w[0].toUpperCase() + w.slice(1)).join('');
+  return name || 'Unknown';
+}
+
+/** e.g. "Assets:ADCB:Account1001" or "Liabilities:EmiratesNBD:Card7337" */
+export function defaultJournalAccount(statement: ExportStatement): string {
+  const m = statement.metadata;
+  const card = isCardStatement(statement);
+  const number = card
+    ? m['cardLastFour'] || (m['cardNumber'] ?? '').replace(/\D/g, '').slice(-4)
+    : (m['iban'] || m['accountNumber'] || '').replace(/\D/g, '').slice(-4);
+  return [card ? 'Liabilities' : 'Assets', accountComponent(statement.bankName), `${card ? 'Card' : 'Account'}${number}`]
+    .join(':');
+}
+
+export function statementAccount(
+  accountKey: string | undefined,
+  statement: ExportStatement,
+  settings: JournalSettings
+): string {
+  return (accountKey && settings.accounts[accountKey]?.trim()) || defaultJournalAccount(statement);
+}
+
+// Beancount's grammar: a root type, then components starting with a capital or digit
+const BEANCOUNT_ACCOUNT = /^(Assets|Liabilities|Expenses|Income|Equity)(:[A-Z0-9][A-Za-z0-9-]*)+$/;
+
+export function isBeancountAccount(name: string): boolean {
+  return BEANCOUNT_ACCOUNT.test(name);
+}
+
+/** The account names the user typed that Beancount would reject */
+export function invalidBeancountAccounts(settings: JournalSettings): string[] {
+  const names = [...Object.values(settings.accounts), settings.expenseAccount, settings.incomeAccount]
+    .map(name => name.trim())
+    .filter(Boolean);
+  return Array.from(new Set(names.filter(name => !isBeancountAccount(name))));
+}
+
+function transferAccount(other: TransferAccount, settings: JournalSettings): string {
+  return statementAccount(other.accountKey, other, settings);
+}
+
+function counterAccount(tx: Transaction, settings: JournalSettings): string {
+  if (tx.transferTo) return transferAccount(tx.transferTo, settings);
+  const inflow = tx.amount > 0;
+  if (tx.category) return `${inflow ? 'Income' : 'Expenses'}:${accountComponent(tx.category)}`;
+  return inflow ? settings.incomeAccount : settings.expenseAccount;
+}
+
+// ─── Entries ────────────────────────────────────────────────────
+
+function quantity(amount: number, commodity: string): string {
+  return `${amount.toFixed(2)} ${commodity}`;
+}
+
+// The counter posting: the foreign amount priced in the home commodity when known
+function counterAmount(tx: Transaction, commodity: string): string {
+  const local = quantity(-tx.amount, commodity);
+  if (tx.foreignAmount === undefined || !tx.foreignCurrency || tx.foreignCurrency === commodity) return local;
+  return `${quantity(-tx.foreignAmount, tx.foreignCurrency)} @@ ${quantity(Math.abs(tx.amount), commodity)}`;
+}
+
+function beancountString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/[\r\n]+/g, ' ')}"`;
+}
+
+function singleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+function beancountEntry(tx: Transaction, account: string, settings: JournalSettings): string {
+  const lines = [`${tx.date} * ${beancountString(tx.payee)} ${beancountString(tx.memo)}`];
+  if (tx.importId) lines.push(`  import_id: ${beancountString(tx.importId)}`);
+  lines.push(`  ${account}  ${quantity(tx.amount, settings.commodity)}`);
+  lines.push(`  ${counterAccount(tx, settings)}  ${counterAmount(tx, settings.commodity)}`);
+  return lines.join('\n');
+}
+
+// Ledger and hledger share this syntax; postings need two spaces before the amount
+function ledgerEntry(tx: Transaction, account: string, settings: JournalSettings): string {
+  const lines = [`${tx.date} * ${singleLine(tx.payee)}`];
+  if (tx.memo) lines.push(`    ; ${singleLine(tx.memo)}`);
+  if (tx.importId) lines.push(`    ; import_id: ${tx.importId}`);
+  lines.push(`    ${account}  ${quantity(tx.amount, settings.commodity)}`);
+  lines.push(`    ${counterAccount(tx, settings)}  ${counterAmount(tx, settings.commodity)}`);
+  return lines.join('\n');
+}
+
+// The inflow side of a transfer whose outflow statement is in the same export
+function bookedElsewhere(tx: Transaction, accountKeys: Set<string> | undefined): boolean {
+  const otherKey = tx.transferTo?.accountKey;
+  return tx.amount > 0 && !!otherKey && !!accountKeys?.has(otherKey);
+}
+
+function assertBeancountAccounts(settings: JournalSettings): void {
+  const invalid = invalidBeancountAccounts(settings);
+  if (invalid.length > 0) {
+    throw new Error(`Not a valid Beancount account: ${invalid.join(', ')}. Use e.g. Assets:Bank:Current`);
+  }
+}
+
+export function toJournal(
+  transactions: Transaction[],
+  format: JournalFormat,
+  statement: ExportStatement,
+  accountKey: string | undefined,
+  settings: JournalSettings = DEFAULT_JOURNAL_SETTINGS,
+  scope?: JournalScope
+): string {
+  if (format === 'beancount') assertBeancountAccounts(settings);
+  const account = statementAccount(accountKey, statement, settings);
+  const entry = format === 'beancount' ? beancountEntry : ledgerEntry;
+  const blocks = [`; ${statement.bankName} ${statement.statementType}`];
+  if (format === 'beancount' && (scope?.opens ?? true)) {
+    const booked = transactions.filter(tx => !bookedElsewhere(tx, scope?.accountKeys));
+    blocks.push(openDirectives([{ account, transactions: booked }], settings));
+  }
+  for (const tx of transactions) {
+    blocks.push(bookedElsewhere(tx, scope?.accountKeys)
+      ? `; ${tx.date} transfer from ${counterAccount(tx, settings)}, booked with that statement`
+      : entry(tx, account, settings));
+  }
+  return blocks.filter(Boolean).join('\n\n') + '\n';
+}
+
+// ─── Open Directives ────────────────────────────────────────────
+
+interface BookedStatement {
+  account: string;
+  transactions: Transaction[];
+}
+
+/** `open` for every account posted to, with its commodities, dated on the first transaction */
+function openDirectives(statements: BookedStatement[], settings: JournalSettings): string {
+  const commodities = new Map<string, Set<string>>();
+  const use = (account: string, commodity: string) => {
+    if (!commodities.has(account)) commodities.set(account, new Set());
+    commodities.get(account)!.add(commodity);
+  };
+  const dates: string[] = [];
+  for (const { account, transactions } of statements) {
+    for (const tx of transactions) {
+      dates.push(tx.date);
+      use(account, settings.commodity);
+      const foreign = tx.foreignAmount !== undefined && tx.foreignCurrency;
+      use(counterAccount(tx, settings), foreign ? tx.foreignCurrency! : settings.commodity);
+    }
+  }
+  if (dates.length === 0) return '';
+  const opened = dates.sort()[0];
+  return Array.from(commodities, ([account, set]) => `${opened} open ${account} ${Array.from(set).sort().join(',')}`)
+    .sort()
+    .join('\n');
+}
+
+export function journalAccountKeys(files: { accountKey?: string }[]): Set<string> {
+  return new Set(files.flatMap(f => (f.accountKey ? [f.accountKey] : [])));
+}
+
+export interface JournalFile {
+  fileName: string;
+  transactions: Transaction[];
+  statement: ExportStatement;
+  accountKey?: string;
+}
+
+/** main.beancount for a ZIP: the open directives for every file, then an include per file */
+export function beancountMain(files: JournalFile[], settings: JournalSettings = DEFAULT_JOURNAL_SETTINGS): string {
+  assertBeancountAccounts(settings);
+  const accountKeys = journalAccountKeys(files);
+  const opens = openDirectives(files.map(f => ({
+    account: statementAccount(f.accountKey, f.statement, settings),
+    transactions: f.transactions.filter(tx => !bookedElsewhere(tx, accountKeys)),
+  })), settings);
+  const includes = files.map(f => `include ${beancountString(f.fileName)}`).join('\n');
+  return [`option "operating_currency" ${beancountString(settings.commodity)}`, opens, includes]
+    .filter(Boolean)
+    .join('\n\n') + '\n';
+}
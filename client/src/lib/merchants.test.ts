@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { Transaction } from './parsers/adcb';
+import { findMerchant, MERCHANTS, normalizeMerchant } from './merchants';
+import { applyRules, type PayeeRule } from './rules';
+
+// One descriptor per dictionary entry, as the banks print them
+const SAMPLES: Record<string, string> = {
+  'Carrefour': 'CARREFOUR MOE DUBAI ARE',
+  'Lulu Hypermarket': 'LULU HYPERMARKET AL BARSHA DUBAI',
+  'Spinneys': 'SPINNEYS DUBAI LLC JUMEIRAH',
+  'Waitrose': 'WAITROSE DUBAI MALL',
+  'Choithrams': 'CHOITHRAMS UMM SUQEIM DUBAI ARE',
+  'Union Coop': 'UNION COOP AL WARQAA DUBAI',
+  'Geant': 'GEANT IBN BATTUTA DUBAI',
+  'Viva': 'VIVA SUPERMARKET JLT DUBAI ARE',
+  'Al Maya Supermarket': 'AL MAYA SUPERMARKET DUBAI MARINA',
+  'West Zone': 'WEST ZONE FRESH DUBAI',
+  'Kibsons': 'KIBSONS INTERNATIONAL LLC DUBAI',
+  'ENOC': 'ENOC 1043 ABU DHABI',
+  'EPPCO': 'EPPCO SITE 2051 DUBAI ARE',
+  'ADNOC': 'ADNOC DISTRIBUTION 512 ABU DHABI',
+  'Emarat': 'EMARAT STATION 88 SHARJAH',
+  'Etisalat Prepaid': 'ETISALAT PREPAID RECHARGE ABU DHABI',
+  'Etisalat': 'ETISALAT BY E& BILL PAYMENT',
+  'du': 'DU PREPAID RECHARGE DUBAI',
+  'Virgin Mobile': 'VIRGIN MOBILE UAE DUBAI',
+  'DEWA': 'DEWA BILL PAYMENT DUBAI ARE',
+  'ADDC': 'ADDC ONLINE PAYMENT ABU DHABI',
+  'AADC': 'AADC AL AIN',
+  'SEWA': 'SEWA SHARJAH ONLINE',
+  'Etihad Water & Electricity': 'ETIHAD WE AJMAN',
+  'Empower': 'EMPOWER DISTRICT COOLING DUBAI',
+  'Lootah Gas': 'LOOTAH BCGAS DUBAI',
+  'Salik': 'SALIK RECHARGE DUBAI ARE',
+  'Darb': 'DARB TOLL ABU DHABI',
+  'Nol': 'NOL TOPUP UNION METRO STATION',
+  'RTA': 'RTA PARKING DUBAI ARE',
+  'Careem': 'CAREEM RIDE DUBAI',
+  'Uber': 'UBER *TRIP HELP.UBER.COM',
+  'Dubai Taxi': 'DUBAI TAXI CORPORATION',
+  'Talabat': 'TALABAT DUBAI ARE',
+  'Deliveroo': 'DELIVEROO AE DUBAI',
+  'Careem Food': 'CAREEM FOOD DUBAI',
+  'Noon Food': 'NOON FOOD DUBAI ARE',
+  'Uber Eats': 'UBER EATS DUBAI',
+  'Instashop': 'INSTASHOP DMCC DUBAI',
+  'Noon': 'NOON.COM DUBAI ARE',
+  'Amazon': 'AMAZON.AE DUBAI',
+  'Dubai Police': 'DUBAI POLICE FINES PAYMENT',
+  'Abu Dhabi Police': 'ABU DHABI POLICE TRAFFIC FINE',
+  'ICP': 'ICP SMART SERVICES ABU DHABI',
+  'GDRFA': 'GDRFA DUBAI VISA SERVICES',
+  'Dubai Municipality': 'DUBAI MUNICIPALITY FEES',
+  'DubaiNow': 'DUBAI NOW APP PAYMENT',
+  'TAMM': 'TAMM ABU DHABI GOVERNMENT',
+  'Ejari': 'EJARI REGISTRATION DUBAI',
+  'MOHRE': 'MOHRE WORK PERMIT FEES',
+};
+
+const tx = (payee: string): Transaction => ({
+  date: '2026-01-15',
+  payee,
+  rawDescription: payee,
+  memo: '',
+  amount: -100,
+  originalDate: '15/01/2026',
+});
+
+describe('MERCHANTS', () => {
+  it('has a sample descriptor for every entry', () => {
+    expect(Object.keys(SAMPLES).sort()).toEqual(MERCHANTS.map(m => m.payee).sort());
+  });
+
+  it.each(MERCHANTS.map(m => [m.payee, SAMPLES[m.payee]]))('maps a %s descriptor to its payee', (payee, descriptor) => {
+    expect(findMerchant(descriptor)?.payee).toBe(payee);
+    expect(normalizeMerchant(tx(descriptor)).payee).toBe(payee);
+  });
+
+  it('leaves unknown merchants unchanged', () => {
+    expect(normalizeMerchant(tx('SOME LOCAL CAFE DUBAI ARE')).payee).toBe('SOME LOCAL CAFE DUBAI ARE');
+  });
+
+  // Short names must not match the start of a longer word
+  it.each([
+    'LULULEMON DUBAI MALL',
+    'RTAKEAWAY JLT DUBAI',
+    'ICPAY LLC DUBAI',
+    'DEWALT TOOLS SHARJAH',
+    'ADDCOM TRADING ABU DHABI',
+    'GDRFAX SERVICES',
+    'MOHREEN SALON DUBAI',
+  ])('leaves %s unchanged', descriptor => {
+    expect(findMerchant(descriptor)).toBeUndefined();
+    expect(normalizeMerchant(tx(descriptor)).payee).toBe(descriptor);
+  });
+});
+
+describe('payee rules after the dictionary', () => {
+  it('override the dictionary payee', () => {
+    const rule: PayeeRule = {
+      id: 'rule-1',
+      enabled: true,
+      matchType: 'contains',
+      pattern: 'CARREFOUR MOE',
+      actions: [{ type: 'set-payee', value: 'Carrefour Mall of the Emirates' }],
+    };
+    const normalized = normalizeMerchant(tx('CARREFOUR MOE DUBAI ARE'));
+    expect(normalized.payee).toBe('Carrefour');
+
+    const { transactions } = applyRules([normalized], 'Emirates NBD', [rule]);
+    expect(transactions[0].payee).toBe('Carrefour Mall of the Emirates');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * UAE Merchant Dictionary
+ *
+ * Card descriptors carry store numbers, branch names and city/country
+ * suffixes ("CARREFOUR MOE DUBAI ARE", "ENOC 1043 ABU DHABI"), so the
+ * same merchant lands in YNAB under a new payee every month. This
+ * curated list maps descriptor patterns for common UAE merchants to one
+ * clean payee name and a suggested category.
+ *
+ * Runs on every parsed statement after the per-bank cleaners; user
+ * payee rules run afterwards and can override it.
+ */
+
+import type { ParseResult, Transaction } from './parsers/adcb';
+
+export interface MerchantEntry {
+  payee: string;
+  category: string;
+  pattern: RegExp;
+}
+
+// First match wins, so specific entries (Carrefour Online, Etisalat
+// Prepaid) come before broader ones for the same brand
+export const MERCHANTS: MerchantEntry[] = [
+  // Supermarkets
+  { payee: 'Carrefour', category: 'Groceries', pattern: /\b(CARREFOUR|MAF CARREFOUR)\b/i },
+  { payee: 'Lulu Hypermarket', category: 'Groceries', pattern: /\bLULU(\s*(HYPER|SUPER|EXPRESS|CENTER|CENTRE)|\b)/i },
+  { payee: 'Spinneys', category: 'Groceries', pattern: /\bSPINNEYS\b/i },
+  { payee: 'Waitrose', category: 'Groceries', pattern: /\bWAITROSE\b/i },
+  { payee: 'Choithrams', category: 'Groceries', pattern: /\bCHOITHRAM/i },
+  { payee: 'Union Coop', category: 'Groceries', pattern: /\bUNION\s*CO-?OP/i },
+  { payee: 'Geant', category: 'Groceries', pattern: /\bGEANT\b/i },
+  { payee: 'Viva', category: 'Groceries', pattern: /\bVIVA\s+(SUPERMARKET|STORE)/i },
+  { payee: 'Al Maya Supermarket', category: 'Groceries', pattern: /\bAL\s*MAYA\b/i },
+  { payee: 'West Zone', category: 'Groceries', pattern: /\bWEST\s*ZONE\b/i },
+  { payee: 'Kibsons', category: 'Groceries', pattern: /\bKIBSONS\b/i },
+
+  // Fuel
+  { payee: 'ENOC', category: 'Fuel', pattern: /\bENOC\b/i },
+  { payee: 'EPPCO', category: 'Fuel', pattern: /\bEPPCO\b/i },
+  { payee: 'ADNOC', category: 'Fuel', pattern: /\bADNOC\b/i },
+  { payee: 'Emarat', category: 'Fuel', pattern: /\bEMARAT\b/i },
+
+  // Telcos
+  { payee: 'Etisalat Prepaid', category: 'Phone & Internet', pattern: /\bETISALAT[\s-]*PRE-?PAID\b/i },
+  { payee: 'Etisalat', category: 'Phone & Internet', pattern: /\b(ETISALAT|E&\s*UAE|ETISALAT BY E&)/i },
+  { payee: 'du', category: 'Phone & Internet', pattern: /\b(EMIRATES INTEGRATED TELECOM|DU\s+(TELECOM|PREPAID|POSTPAID|BILL|RECHARGE|PAYMENT)|WWW\.DU\.AE)/i },
+  { payee: 'Virgin Mobile', category: 'Phone & Internet', pattern: /\bVIRGIN\s*MOBILE\b/i },
+
+  // Utilities
+  { payee: 'DEWA', category: 'Utilities', pattern: /\b(DEWA|DUBAI ELECTRICITY)\b/i },
+  { payee: 'ADDC', category: 'Utilities', pattern: /\b(ADDC|ABU DHABI DISTRIBUTION)\b/i },
+  { payee: 'AADC', category: 'Utilities', pattern: /\bAADC\b/i },
+  { payee: 'SEWA', category: 'Utilities', pattern: /\bSEWA\b/i },
+  { payee: 'Etihad Water & Electricity', category: 'Utilities', pattern: /\b(ETIHAD\s*WE|ETIHAD WATER|FEWA)\b/i },
+  { payee: 'Empower', category: 'Utilities', pattern: /\bEMPOWER\b/i },
+  { payee: 'Lootah Gas', category: 'Utilities', pattern: /\bLOOTAH\b/i },
+
+  // Transport: RTA, Salik, Nol, taxis and ride hailing
+  { payee: 'Salik', category: 'Tolls', pattern: /\bSALIK\b/i },
+  { payee: 'Darb', category: 'Tolls', pattern: /\bDARB\b/i },
+  { payee: 'Nol', category: 'Transport', pattern: /\bNOL\b/i },
+  { payee: 'RTA', category: 'Transport', pattern: /\b(RTA|ROADS? (AND|&) TRANSPORT)\b/i },
+  { payee: 'Careem', category: 'Transport', pattern: /\bCAREEM(?!\s*(FOOD|QUIK|QUICK))/i },
+  { payee: 'Uber', category: 'Transport', pattern: /\bUBER(?!\s*EATS)/i },
+  { payee: 'Dubai Taxi', category: 'Transport', pattern: /\bDUBAI\s*TAXI\b|\bDTC\b/i },
+
+  // Delivery apps
+  { payee: 'Talabat', category: 'Food Delivery', pattern: /\bTALABAT/i },
+  { payee: 'Deliveroo', category: 'Food Delivery', pattern: /\bDELIVEROO/i },
+  { payee: 'Careem Food', category: 'Food Delivery', pattern: /\bCAREEM\s*(FOOD|QUIK|QUICK)/i },
+  { payee: 'Noon Food', category: 'Food Delivery', pattern: /\bNOON\s*FOOD/i },
+  { payee: 'Uber Eats', category: 'Food Delivery', pattern: /\bUBER\s*EATS/i },
+  { payee: 'Instashop', category: 'Groceries', pattern: /\bINSTASHOP/i },
+
+  // Online shopping
+  { payee: 'Noon', category: 'Shopping', pattern: /\bNOON(\.COM|\s+(E-?COMMERCE|MINUTES))?\b(?!\s*FOOD)/i },
+  { payee: 'Amazon', category: 'Shopping', pattern: /\bAMAZON(\.AE|\s*(AE|UAE))?\b/i },
+
+  // Government services
+  { payee: 'Dubai Police', category: 'Government Services', pattern: /\bDUBAI\s*POLICE\b/i },
+  { payee: 'Abu Dhabi Police', category: 'Government Services', pattern: /\bA(BU)?\s*D(HABI)?\s*POLICE\b/i },
+  { payee: 'ICP', category: 'Government Services', pattern: /\b(ICP|FEDERAL AUTHORITY FOR IDENTITY|ICA SMART)\b/i },
+  { payee: 'GDRFA', category: 'Government Services', pattern: /\bGDRFA\b/i },
+  { payee: 'Dubai Municipality', category: 'Government Services', pattern: /\bDUBAI\s*MUNICIPALITY\b/i },
+  { payee: 'DubaiNow', category: 'Government Services', pattern: /\bDUBAI\s*NOW\b/i },
+  { payee: 'TAMM', category: 'Government Services', pattern: /\bTAMM\b/i },
+  { payee: 'Ejari', category: 'Government Services', pattern: /\bEJARI\b/i },
+  { payee: 'MOHRE', category: 'Government Services', pattern: /\b(MOHRE|MINISTRY OF HUMAN RESOURCES)\b/i },
+];
+
+export function findMerchant(description: string): MerchantEntry | undefined {
+  return MERCHANTS.find(m => m.pattern.test(description));
+}
+
+/** Replaces dictionary matches with the clean payee name */
+export function normalizeMerchant(tx: Transaction): Transaction {
+  const merchant = findMerchant(tx.payee);
+  return merchant ? { ...tx, payee: merchant.payee } : tx;
+}
+
+export function withMerchantNames(result: ParseResult): ParseResult {
+  return { ...result, transactions: result.transactions.map(normalizeMerchant) };
+}
@@ -0,0 +1,139 @@
+/**
+ * OFX Export
+ *
+ * Open Financial Exchange 2.2 (XML) statements. Unlike CSV, OFX carries
+ * an explicit DEBIT/CREDIT type per transaction, the account number in
+ * <ACCTID>, and a <FITID> per transaction that YNAB and other importers
+ * use to skip transactions they have already seen.
+ *
+ * FITIDs are derived from the transaction's import ID (amount, date and
+ * occurrence), so exporting the same statement twice gives the same IDs.
+ *
+ * A bank account is written with its IBAN's bank code as <BANKID>; an
+ * account without an IBAN is written like a card, with just <ACCTID>.
+ * <LEDGERBAL> is only written when the statement prints a closing balance.
+ */
+
+import type { Transaction } from './parsers/adcb';
+import { importIds, toMilliunits } from './import-ids';
+import { exportMemo, isCardStatement, type ExportStatement, type YNABExportOptions } from './ynab-export';
+
+const MAX_ACCTID = 22;   // OFX limits
+const MAX_NAME = 32;
+
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/[\r\n]+/g, ' ');
+}
+
+function ofxDate(isoDate: string): string {
+  return isoDate.replace(/-/g, '');
+}
+
+/** The statement's account, IBAN or card number, for <ACCTID> */
+export function ofxAccountId(statement: ExportStatement): string {
+  const { metadata } = statement;
+  const id = metadata['accountNumber'] || metadata['iban'] || metadata['cardNumber'] || metadata['cardLastFour']
+    || statement.bankName;
+  return id.replace(/[\s-]/g, '').slice(-MAX_ACCTID);
+}
+
+/**
+ * The bank code from the statement's UAE IBAN (AEkk BBB ...), for <BANKID>.
+ * Without an IBAN there is no routing number to give.
+ */
+export function ofxBankId(statement: ExportStatement): string | undefined {
+  const iban = (statement.metadata['iban'] ?? '').replace(/[\s-]/g, '').toUpperCase();
+  return /^AE\d{5}/.test(iban) ? iban.slice(4, 7) : undefined;
+}
+
+/** Stable per-account transaction ID: date, D/C, milliunits, occurrence, e.g. "20240115D120500-1" */
+export function fitId(tx: Transaction, importId: string): string {
+  const occurrence = importId.split(':').pop();
+  const milliunits = toMilliunits(tx.amount);
+  return `${ofxDate(tx.date)}${milliunits < 0 ? 'D' : 'C'}${Math.abs(milliunits)}-${occurrence}`;
+}
+
+export function toOFX(
+  transactions: Transaction[],
+  statement: ExportStatement,
+  options: YNABExportOptions = {}
+): string {
+  const bankId = ofxBankId(statement);
+  // <BANKACCTFROM> needs a bank ID; an account without an IBAN goes in the credit card block
+  const card = isCardStatement(statement) || !bankId;
+  const currency = statement.metadata['currency'] || 'AED';
+  const ids = importIds(transactions);
+  const dates = transactions.map(tx => tx.date).sort();
+  const start = dates[0] ?? '';
+  const end = dates[dates.length - 1] ?? '';
+  // A row's running balance isn't the closing one for a filtered subset or a newest-first statement
+  const balance = statement.closingBalance;
+
+  const entries = transactions.map((tx, i) => {
+    const memo = exportMemo(tx, options);
+    return [
+      '<STMTTRN>',
+      `<TRNTYPE>${tx.amount < 0 ? 'DEBIT' : 'CREDIT'}</TRNTYPE>`,
+      `<DTPOSTED>${ofxDate(tx.date)}</DTPOSTED>`,
+      `<TRNAMT>${tx.amount.toFixed(2)}</TRNAMT>`,
+      `<FITID>${fitId(tx, tx.importId ?? ids[i])}</FITID>`,
+      `<NAME>${escapeXML(tx.payee.slice(0, MAX_NAME))}</NAME>`,
+      ...(memo ? [`<MEMO>${escapeXML(memo)}</MEMO>`] : []),
+      '</STMTTRN>',
+    ].join('\n');
+  });
+
+  const account = card
+    ? `<CCACCTFROM>\n<ACCTID>${escapeXML(ofxAccountId(statement))}</ACCTID>\n</CCACCTFROM>`
+    : [
+        '<BANKACCTFROM>',
+        `<BANKID>${bankId}</BANKID>`,
+        `<ACCTID>${escapeXML(ofxAccountId(statement))}</ACCTID>`,
+        '<ACCTTYPE>CHECKING</ACCTTYPE>',
+        '</BANKACCTFROM>',
+      ].join('\n');
+
+  const statementResponse = [
+    card ? '<CCSTMTRS>' : '<STMTRS>',
+    `<CURDEF>${currency}</CURDEF>`,
+    account,
+    '<BANKTRANLIST>',
+    `<DTSTART>${ofxDate(start)}</DTSTART>`,
+    `<DTEND>${ofxDate(end)}</DTEND>`,
+    ...entries,
+    '</BANKTRANLIST>',
+    // Only when the statement states a balance; 0 would be read as a real one
+    ...(balance !== undefined
+      ? ['<LEDGERBAL>', `<BALAMT>${balance.toFixed(2)}</BALAMT>`, `<DTASOF>${ofxDate(end)}</DTASOF>`, '</LEDGERBAL>']
+      : []),
+    card ? '</CCSTMTRS>' : '</STMTRS>',
+  ].join('\n');
+
+  const messageSet = card ? 'CREDITCARDMSGSRSV1' : 'BANKMSGSRSV1';
+  const transactionResponse = card ? 'CCSTMTTRNRS' : 'STMTTRNRS';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    '<OFX>',
+    '<SIGNONMSGSRSV1>',
+    '<SONRS>',
+    '<STATUS>\n<CODE>0</CODE>\n<SEVERITY>INFO</SEVERITY>\n</STATUS>',
+    `<DTSERVER>${ofxDate(end)}</DTSERVER>`,
+    '<LANGUAGE>ENG</LANGUAGE>',
+    '</SONRS>',
+    '</SIGNONMSGSRSV1>',
+    `<${messageSet}>`,
+    `<${transactionResponse}>`,
+    '<TRNUID>0</TRNUID>',
+    '<STATUS>\n<CODE>0</CODE>\n<SEVERITY>INFO</SEVERITY>\n</STATUS>',
+    statementResponse,
+    `</${transactionResponse}>`,
+    `</${messageSet}>`,
+    '</OFX>',
+  ].join('\n') + '\n';
+}
@@ -0,0 +1,211 @@
+/**
+ * Parse Pool
+ *
+ * Parses uploaded files in a small pool of Web Workers so large PDFs
+ * and spreadsheets don't freeze the page, and several files parse at
+ * once. Each task streams progress and can be cancelled: a queued task
+ * is dropped, a running one has its worker terminated and replaced.
+ *
+ * Where Web Workers aren't available, files parse on the main thread.
+ */
+
+import { parseFile, PDFPasswordError, type ParseProgress, type ParseResult } from './parsers';
+import type { SavedColumnMappings } from './parsers/column-mapping';
+
+const MAX_WORKERS = 3;
+
+// ─── Worker Messages ────────────────────────────────────────────
+
+export interface ParseWorkerRequest {
+  id: number;
+  file: File;
+  password?: string;
+  columnMappings?: SavedColumnMappings;
+}
+
+export interface SerializedParseError {
+  name: string;
+  message: string;
+  fileName?: string;
+  incorrectPassword?: boolean;
+}
+
+export type ParseWorkerResponse =
+  | { type: 'progress'; id: number; progress: ParseProgress }
+  | { type: 'done'; id: number; result: ParseResult }
+  | { type: 'error'; id: number; error: SerializedParseError };
+
+// ─── Pool ───────────────────────────────────────────────────────
+
+export class ParseCancelledError extends Error {
+  constructor(fileName: string) {
+    super(`Parsing ${fileName} was cancelled`);
+    this.name = 'ParseCancelledError';
+  }
+}
+
+export interface ParseTaskOptions {
+  password?: string;
+  columnMappings?: SavedColumnMappings;   // localStorage isn't readable from the worker
+  onProgress?: (progress: ParseProgress) => void;
+}
+
+export interface ParseTask {
+  promise: Promise<ParseResult>;
+  cancel(): void;
+}
+
+export interface ParsePool {
+  parse(file: File, options?: ParseTaskOptions): ParseTask;
+  dispose(): void;
+}
+
+interface Job {
+  id: number;
+  file: File;
+  options: ParseTaskOptions;
+  resolve(result: ParseResult): void;
+  reject(error: Error): void;
+}
+
+interface Slot {
+  worker: Worker;
+  job: Job | null;
+}
+
+function deserializeError(error: SerializedParseError): Error {
+  if (error.name === 'PDFPasswordError') {
+    return new PDFPasswordError(error.fileName ?? '', error.incorrectPassword ?? false);
+  }
+  const err = new Error(error.message);
+  err.name = error.name;
+  return err;
+}
+
+function defaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+}
+
+export function createParsePool(size: number = defaultPoolSize()): ParsePool {
+  if (typeof Worker === 'undefined') return createMainThreadPool();
+
+  let nextId = 1;
+  const queue: Job[] = [];
+  const slots: Slot[] = [];
+  let disposed = false;
+
+  const spawn = (): Slot => {
+    const slot: Slot = {
+      worker: new Worker(new URL('./parse-worker.ts', import.meta.url), { type: 'module' }),
+      job: null,
+    };
+    slot.worker.onmessage = ({ data }: MessageEvent<ParseWorkerResponse>) => {
+      const job = slot.job;
+      if (!job || job.id !== data.id) return;
+      if (data.type === 'progress') {
+        job.options.onProgress?.(data.progress);
+        return;
+      }
+      slot.job = null;
+      if (data.type === 'done') job.resolve(data.result);
+      else job.reject(deserializeError(data.error));
+      pump();
+    };
+    slot.worker.onerror = event => {
+      // The worker itself failed (e.g. it could not load): replace it
+      const job = slot.job;
+      replace(slot);
+      job?.reject(new Error(event.message || 'Failed to parse file'));
+      pump();
+    };
+    return slot;
+  };
+
+  const replace = (slot: Slot) => {
+    slot.worker.terminate();
+    const index = slots.indexOf(slot);
+    if (index === -1) return;   // the pool was disposed: don't respawn
+    slots[index] = spawn();
+  };
+
+  const pump = () => {
+    while (!disposed && queue.length > 0) {
+      let slot = slots.find(s => !s.job);
+      if (!slot && slots.length < size) {
+        slot = spawn();
+        slots.push(slot);
+      }
+      if (!slot) return;
+      const job = queue.shift()!;
+      slot.job = job;
+      const { password, columnMappings } = job.options;
+      const request: ParseWorkerRequest = { id: job.id, file: job.file, password, columnMappings };
+      slot.worker.postMessage(request);
+    }
+  };
+
+  return {
+    parse(file, options = {}) {
+      let job!: Job;
+      const promise = new Promise<ParseResult>((resolve, reject) => {
+        job = { id: nextId++, file, options, resolve, reject };
+      });
+      if (disposed) {
+        job.reject(new ParseCancelledError(file.name));
+        return { promise, cancel() {} };
+      }
+      queue.push(job);
+      pump();
+
+      const cancel = () => {
+        const queued = queue.indexOf(job);
+        if (queued !== -1) {
+          queue.splice(queued, 1);
+        } else {
+          const slot = slots.find(s => s.job === job);
+          if (!slot) return;   // already finished
+          replace(slot);
+          pump();
+        }
+        job.reject(new ParseCancelledError(file.name));
+      };
+
+      return { promise, cancel };
+    },
+
+    dispose() {
+      disposed = true;
+      queue.splice(0).forEach(job => job.reject(new ParseCancelledError(job.file.name)));
+      slots.splice(0).forEach(slot => {
+        slot.worker.terminate();
+        slot.job?.reject(new ParseCancelledError(slot.job.file.name));
+      });
+    },
+  };
+}
+
+// Fallback: parse on the main thread; cancelling only discards the result
+function createMainThreadPool(): ParsePool {
+  return {
+    parse(file, options = {}) {
+      let cancelled = false;
+      let rejectTask: (error: Error) => void = () => {};
+      const promise = new Promise<ParseResult>((resolve, reject) => {
+        rejectTask = reject;
+        parseFile(file, options).then(
+          result => !cancelled && resolve(result),
+          err => !cancelled && reject(err)
+        );
+      });
+      return {
+        promise,
+        cancel() {
+          cancelled = true;
+          rejectTask(new ParseCancelledError(file.name));
+        },
+      };
+    },
+    dispose() {},
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Parse Worker
+ *
+ * Runs the parser pipeline (pdf.js text assembly, SheetJS, bank
+ * parsers) off the main thread. Each message parses one file and
+ * streams progress back; see parse-pool.ts for the main-thread side.
+ */
+
+import { parseFile, PDFPasswordError } from './parsers';
+import type { ParseWorkerRequest, ParseWorkerResponse } from './parse-pool';
+
+const scope = self as unknown as {
+  postMessage(message: ParseWorkerResponse): void;
+  onmessage: ((event: MessageEvent<ParseWorkerRequest>) => void) | null;
+};
+
+scope.onmessage = async ({ data: { id, file, password, columnMappings } }) => {
+  try {
+    const result = await parseFile(file, {
+      password,
+      columnMappings,
+      onProgress: progress => scope.postMessage({ type: 'progress', id, progress }),
+    });
+    scope.postMessage({ type: 'done', id, result });
+  } catch (err: any) {
+    scope.postMessage({
+      type: 'error',
+      id,
+      error: {
+        name: err?.name ?? 'Error',
+        message: err?.message || 'Failed to parse file',
+        ...(err instanceof PDFPasswordError && { fileName: err.fileName, incorrectPassword: err.incorrectPassword }),
+      },
+    });
+  }
+};
@@ -5,23 +5,39 @@
  * Supports both Account Statements and Credit Card Statements.
  */
 
+import type { StatementParser } from './registry';
+import { foreignAmountFrom } from './fx';
+
 export interface Transaction {
   date: string;        // YYYY-MM-DD
   payee: string;
+  rawDescription?: string;  // description as printed, before bank-specific cleanup
   memo: string;
   amount: number;      // negative = outflow, positive = inflow
   originalDate: string;
+  balance?: number;    // running balance after this row, when the statement prints one
+  foreignAmount?: number;   // original amount for foreign-currency card spend, signed like amount
+  foreignCurrency?: string; // ISO code, e.g. "USD"
+  fxRate?: number;          // AED per one unit of foreignCurrency
+  importId?: string;        // YNAB import_id, unique within the statement's account
+  category?: string;        // YNAB category name, e.g. "Groceries"
+  transferTo?: TransferAccount;   // the other statement of a matched transfer
 }
 
+export type TransferAccount = Pick<ParseResult, 'bankName' | 'statementType' | 'metadata' | 'accountKey'>;
+
 export interface ParseResult {
   bankName: string;
   statementType: string;
   transactions: Transaction[];
   metadata: Record<string, string>;
   errors: string[];
+  openingBalance?: number;
+  closingBalance?: number;
+  accountKey?: string;      // scopes import IDs, e.g. "iban:AE07..."
 }
 
-function parseCSVLine(line: string): string[] {
+export function parseCSVLine(line: string): string[] {
   const result: string[] = [];
   let current = '';
   let inQuotes = false;
@@ -76,6 +92,27 @@ export function detectADCBType(content: string): 'account' | 'creditcard' | null
   return null;
 }
 
+export const adcbParsers: StatementParser[] = [
+  {
+    id: 'adcb-account-csv',
+    bank: 'ADCB',
+    statementType: 'Account Statement',
+    extensions: ['csv'],
+    mimeTypes: ['text/csv'],
+    detect: sample => detectADCBType(sample.text) === 'account' ? 0.9 : 0,
+    parse: ({ sample }) => parseADCBAccount(sample.text),
+  },
+  {
+    id: 'adcb-creditcard-csv',
+    bank: 'ADCB',
+    statementType: 'Credit Card Statement',
+    extensions: ['csv'],
+    mimeTypes: ['text/csv'],
+    detect: sample => detectADCBType(sample.text) === 'creditcard' ? 0.9 : 0,
+    parse: ({ sample }) => parseADCBCreditCard(sample.text),
+  },
+];
+
 export function parseADCBAccount(content: string): ParseResult {
   const lines = content.split('\n').map(l => l.trim()).filter(Boolean);
   const transactions: Transaction[] = [];
@@ -117,7 +154,7 @@ export function parseADCBAccount(content: string): ParseResult {
     const fields = parseCSVLine(lines[i]);
     if (fields.length < 6) continue;
     
-    const [postingDate, _valueDate, _refNo, description, debitStr, creditStr] = fields;
+    const [postingDate, _valueDate, _refNo, description, debitStr, creditStr, balanceStr] = fields;
     
     if (!postingDate || !postingDate.match(/^\d{2}\/\d{2}\/\d{4}$/)) continue;
     
@@ -129,12 +166,16 @@ export function parseADCBAccount(content: string): ParseResult {
     
     const amount = credit > 0 ? credit : -debit;
     
+    const balance = balanceStr ? parseAmount(balanceStr) : NaN;
+    
     transactions.push({
       date: parseDDMMYYYY(postingDate),
       payee: cleanDescription(description),
+      rawDescription: description,
       memo: '',
       amount,
       originalDate: postingDate,
+      ...(isNaN(balance) ? {} : { balance }),
     });
   }
   
@@ -183,6 +224,11 @@ export function parseADCBCreditCard(content: string): ParseResult {
     return { bankName: 'ADCB', statementType: 'Credit Card Statement', transactions, metadata, errors };
   }
   
+  // Optional original-currency columns on cards used abroad
+  const headers = parseCSVLine(lines[headerIndex]).map(h => h.trim().toLowerCase());
+  const currencyCol = headers.findIndex(h => h === 'currency' || h === 'original currency');
+  const originalAmountCol = headers.findIndex(h => h === 'original amount' || h === 'foreign amount');
+  
   // Parse transactions
   for (let i = headerIndex + 1; i < lines.length; i++) {
     const fields = parseCSVLine(lines[i]);
@@ -201,12 +247,18 @@ export function parseADCBCreditCard(content: string): ParseResult {
     // DR = debit (outflow, negative), CR = credit (inflow, positive)
     const amount = crDr === 'CR' ? rawAmount : -rawAmount;
     
+    const fx = currencyCol !== -1 && originalAmountCol !== -1
+      ? foreignAmountFrom(parseAmount(fields[originalAmountCol] ?? ''), fields[currencyCol] ?? '', amount)
+      : null;
+    
     transactions.push({
       date: parseDDMMYYYY(dateStr),
       payee: cleanDescription(description),
+      rawDescription: description,
       memo: '',
       amount,
       originalDate: dateStr,
+      ...fx,
     });
   }
   
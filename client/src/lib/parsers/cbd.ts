@@ -0,0 +1,152 @@
+/**
+ * Commercial Bank of Dubai Statement Parsers
+ *
+ * Parses CBD PDF statements:
+ *   - Account Statement:     Txn Date | Value Date | Description | Debit | Credit | Balance
+ *   - Credit Card Statement: Transaction Date | Posting Date | Description | Amount [CR]
+ *
+ * Detection requires the full bank name, cbd.ae or CBD's IBAN bank code in
+ * the statement header: "CBD" on its own also means Dubai's central
+ * business district, and narrations may name CBD accounts.
+ */
+
+import type { Transaction, ParseResult } from './adcb';
+import type { StatementParser, StatementSample } from './registry';
+import { extractTextFromPDF } from './pdf';
+import { findStatementPeriod, isBrandedHeader, lastFourDigits, statementHeader } from './common';
+import { parseAccountLines, parseCardLines } from './statement-lines';
+
+// CBD's IBAN bank code
+const CBD_IBAN_CODE = '023';
+
+function isCBDBranded(text: string): boolean {
+  return isBrandedHeader(text, /Commercial Bank of Dubai|cbd\.ae/i, CBD_IBAN_CODE);
+}
+
+export function detectCBDType(text: string): 'account' | 'creditcard' | null {
+  if (!isCBDBranded(text)) return null;
+  const header = statementHeader(text);
+  if (/Credit Card Statement|Card Statement/i.test(header)) return 'creditcard';
+  if (/Account Statement|Statement of Account/i.test(header)) return 'account';
+  return null;
+}
+
+function cbdConfidence(sample: StatementSample, type: 'account' | 'creditcard'): number {
+  if (sample.format !== 'pdf') return 0;
+  return detectCBDType(sample.text) === type ? 0.95 : 0;
+}
+
+export const cbdParsers: StatementParser[] = [
+  {
+    id: 'cbd-account-pdf',
+    bank: 'CBD',
+    statementType: 'Account Statement',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+    detect: sample => cbdConfidence(sample, 'account'),
+    parse: ({ file, password }) => parseCBDAccount(file, password),
+  },
+  {
+    id: 'cbd-creditcard-pdf',
+    bank: 'CBD',
+    statementType: 'Credit Card Statement',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+    detect: sample => cbdConfidence(sample, 'creditcard'),
+    parse: ({ file, password }) => parseCBDCreditCard(file, password),
+  },
+];
+
+// ─── Account Statement ──────────────────────────────────────────
+
+export async function parseCBDAccount(file: File, password?: string): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
+  const metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const pages = await extractTextFromPDF(file, password);
+    const fullText = pages.join('\n');
+
+    const accountMatch = fullText.match(/Account (?:Number|No\.?)[:\s]*(\d{6,})/i);
+    if (accountMatch) metadata['accountNumber'] = accountMatch[1];
+
+    const ibanMatch = fullText.match(/IBAN[:\s]*(AE\d{2}(?:\s?\d){19})/i);
+    if (ibanMatch) metadata['iban'] = ibanMatch[1].replace(/\s/g, '');
+
+    const period = findStatementPeriod(fullText);
+    if (period) metadata['period'] = period;
+
+    const currencyMatch = fullText.match(/Currency[:\s]*(AED|USD|EUR|GBP)/);
+    if (currencyMatch) metadata['currency'] = currencyMatch[1];
+
+    const result = parseAccountLines(pages, {
+      cleanDescription: cleanCBDDescription,
+      isFooter: line => /Commercial Bank of Dubai|cbd\.ae|Page \d+/i.test(line),
+    });
+    transactions = result.transactions;
+    openingBalance = result.openingBalance;
+    closingBalance = result.closingBalance;
+  } catch (err: any) {
+    errors.push(`PDF parsing error: ${err.message}`);
+  }
+
+  return {
+    bankName: 'CBD',
+    statementType: 'Account Statement',
+    transactions,
+    metadata,
+    errors,
+    openingBalance,
+    closingBalance,
+  };
+}
+
+// ─── Credit Card Statement ──────────────────────────────────────
+
+export async function parseCBDCreditCard(file: File, password?: string): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  const metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const pages = await extractTextFromPDF(file, password);
+    const fullText = pages.join('\n');
+
+    const cardMatch = fullText.match(/Card (?:Number|No\.?)[:\s]*([\dX*]{4}[\dX*\s-]{8,}\d{4})/i);
+    if (cardMatch) {
+      metadata['cardNumber'] = cardMatch[1].replace(/\s+/g, ' ').trim();
+      metadata['cardLastFour'] = lastFourDigits(cardMatch[1]);
+    }
+
+    const period = findStatementPeriod(fullText);
+    if (period) metadata['period'] = period;
+
+    transactions = parseCardLines(pages, { cleanDescription: cleanCBDDescription });
+  } catch (err: any) {
+    errors.push(`PDF parsing error: ${err.message}`);
+  }
+
+  return {
+    bankName: 'CBD',
+    statementType: 'Credit Card Statement',
+    transactions,
+    metadata,
+    errors,
+  };
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function cleanCBDDescription(desc: string): string {
+  if (!desc) return '';
+  // "POS PURCHASE REF:123456 SPINNEYS DUBAI AE" → "SPINNEYS DUBAI"
+  return desc
+    .replace(/\s+/g, ' ')
+    .replace(/^POS PURCHASE\s*/i, '')
+    .replace(/\bREF[:\s]*\d+\s*/i, '')
+    .replace(/\s+AE\s*$/, '')
+    .trim();
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { applyColumnMapping, type ColumnMapping } from './column-mapping';
+
+const signed: ColumnMapping = {
+  headerRow: 1,
+  dateColumn: 0,
+  dateFormat: 'DD/MM/YYYY',
+  descriptionColumns: [1],
+  amount: { kind: 'signed', column: 2, invert: false },
+  bankName: 'Mashreq',
+};
+
+const debitCredit: ColumnMapping = {
+  ...signed,
+  amount: { kind: 'debit-credit', debitColumn: 2, creditColumn: 3 },
+};
+
+describe('applyColumnMapping', () => {
+  it('keeps dated rows with an amount', () => {
+    const result = applyColumnMapping([
+      ['Mashreq Account Statement'],
+      ['Date', 'Description', 'Amount'],
+      ['02/01/2026', 'CARREFOUR MOE', '-120.50'],
+      ['25/01/2026', 'SALARY', '15,000.00'],
+    ], signed);
+    expect(result.errors).toEqual([]);
+    expect(result.bankName).toBe('Mashreq');
+    expect(result.transactions.map(t => [t.date, t.payee, t.amount])).toEqual([
+      ['2026-01-02', 'CARREFOUR MOE', -120.5],
+      ['2026-01-25', 'SALARY', 15000],
+    ]);
+  });
+
+  it('skips balance-only, subtotal and zero rows', () => {
+    const result = applyColumnMapping([
+      ['Mashreq Account Statement'],
+      ['Date', 'Description', 'Debit', 'Credit', 'Balance'],
+      ['01/01/2026', 'OPENING BALANCE', '', '', '6,000.00'],
+      ['02/01/2026', 'CARREFOUR MOE', '120.50', '', '5,879.50'],
+      ['15/01/2026', 'SUBTOTAL', '0.00', '0.00', ''],
+      ['20/01/2026', 'CHEQUE RETURNED', 'n/a', '', '5,879.50'],
+      ['25/01/2026', 'SALARY', '', '15,000.00', '20,879.50'],
+      ['31/01/2026', 'CLOSING BALANCE', '', '', '20,879.50'],
+    ], debitCredit);
+    expect(result.errors).toEqual([]);
+    expect(result.transactions.map(t => [t.payee, t.amount])).toEqual([
+      ['CARREFOUR MOE', -120.5],
+      ['SALARY', 15000],
+    ]);
+  });
+
+  it('skips repeated header rows and undated totals', () => {
+    const result = applyColumnMapping([
+      ['Mashreq Account Statement'],
+      ['Date', 'Description', 'Amount'],
+      ['02/01/2026', 'CARREFOUR MOE', '-120.50'],
+      ['Date', 'Description', 'Amount'],
+      ['', 'TOTAL', '-120.50'],
+    ], signed);
+    expect(result.transactions).toHaveLength(1);
+  });
+
+  it('reports a mapping that finds nothing', () => {
+    const result = applyColumnMapping([
+      ['Date', 'Description', 'Amount'],
+      ['01/01/2026', 'OPENING BALANCE', ''],
+    ], { ...signed, headerRow: 0 });
+    expect(result.transactions).toEqual([]);
+    expect(result.errors).toEqual(['No transactions found with this column mapping.']);
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Column Mapping Importer
+ *
+ * Reads CSV and spreadsheet exports from banks without a dedicated
+ * parser, using a mapping the user picks in the column-mapping wizard:
+ * which row holds the headers, which column holds the date (and how it
+ * is written), which columns make up the description, and whether the
+ * amount is one signed column or separate debit and credit columns.
+ *
+ * Mappings are remembered by a fingerprint of the header row, so the
+ * same bank export is recognised automatically next time.
+ */
+
+import type { ParseResult, Transaction } from './adcb';
+import { parseAmountString, parseStatementDate } from './common';
+
+export type DateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD' | 'DD MMM YYYY';
+
+export const DATE_FORMATS: DateFormat[] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD', 'DD MMM YYYY'];
+
+export type AmountMapping =
+  | { kind: 'signed'; column: number; invert: boolean }   // invert: outflows are printed as positive
+  | { kind: 'debit-credit'; debitColumn: number; creditColumn: number };
+
+export interface ColumnMapping {
+  headerRow: number;             // index of the header row; transactions follow it
+  dateColumn: number;            // -1 while unset
+  dateFormat: DateFormat;
+  descriptionColumns: number[];  // joined with a space, in column order
+  amount: AmountMapping;
+  bankName: string;              // '' shows as "Custom"
+}
+
+// header fingerprint → mapping
+export type SavedColumnMappings = Record<string, ColumnMapping>;
+
+const MAPPINGS_KEY = 'uae2ynab:column-mappings';
+const MAX_HEADER_SCAN = 20;
+
+export const MAPPED_STATEMENT_TYPE = 'Column mapping';
+
+// ─── Dates ──────────────────────────────────────────────────────
+
+function isoDate(year: string, month: string, day: string): string | null {
+  const yyyy = year.length === 2 ? `20${year}` : year;
+  const mm = Number(month);
+  const dd = Number(day);
+  if (mm < 1 || mm > 12 || dd < 1 || dd > 31) return null;
+  return `${yyyy}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+/** Reads a date cell written in `format` as YYYY-MM-DD, or null */
+export function parseMappedDate(value: string, format: DateFormat): string | null {
+  const str = value.trim();
+
+  if (format === 'DD MMM YYYY') {
+    const parsed = parseStatementDate(str);
+    return /^\d{4}-\d{2}-\d{2}$/.test(parsed) && /[a-z]/i.test(str) ? parsed : null;
+  }
+
+  if (format === 'YYYY-MM-DD') {
+    const match = str.match(/^(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})\b/);
+    return match ? isoDate(match[1], match[2], match[3]) : null;
+  }
+
+  const match = str.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{4}|\d{2})\b/);
+  if (!match) return null;
+  const [, first, second, year] = match;
+  return format === 'DD/MM/YYYY' ? isoDate(year, second, first) : isoDate(year, first, second);
+}
+
+/**
+ * The format that reads every non-blank value, preferring day-first
+ * when both day-first and month-first fit. Null when none does.
+ */
+export function guessDateFormat(values: string[]): DateFormat | null {
+  const cells = values.map(v => v.trim()).filter(Boolean);
+  if (cells.length === 0) return null;
+  return DATE_FORMATS.find(format => cells.every(cell => parseMappedDate(cell, format))) ?? null;
+}
+
+// ─── Fingerprints ───────────────────────────────────────────────
+
+/** Identifies an export layout by its header cells; '' for a blank row */
+export function headerFingerprint(headers: string[]): string {
+  const cells = headers.map(h => h.trim().toLowerCase().replace(/\s+/g, ' '));
+  while (cells.length > 0 && cells[cells.length - 1] === '') cells.pop();
+  return cells.filter(Boolean).length >= 2 ? cells.join('|') : '';
+}
+
+/** A saved mapping whose header row appears near the top of `rows`, or null */
+export function findSavedMapping(rows: string[][], saved: SavedColumnMappings): ColumnMapping | null {
+  for (let i = 0; i < Math.min(rows.length, MAX_HEADER_SCAN); i++) {
+    const fingerprint = headerFingerprint(rows[i]);
+    // The preamble above the headers can vary between exports, so the row index is re-found
+    if (fingerprint && saved[fingerprint]) return { ...saved[fingerprint], headerRow: i };
+  }
+  return null;
+}
+
+export function loadColumnMappings(): SavedColumnMappings {
+  try {
+    const raw = localStorage.getItem(MAPPINGS_KEY);
+    return raw ? (JSON.parse(raw) as SavedColumnMappings) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveColumnMapping(headers: string[], mapping: ColumnMapping): void {
+  const fingerprint = headerFingerprint(headers);
+  if (!fingerprint) return;
+  try {
+    const saved = loadColumnMappings();
+    saved[fingerprint] = mapping;
+    localStorage.setItem(MAPPINGS_KEY, JSON.stringify(saved));
+  } catch {
+    // Storage may be unavailable (private mode)
+  }
+}
+
+// ─── Mapping ────────────────────────────────────────────────────
+
+const DESCRIPTION_HEADERS = /desc|narrat|detail|particular|payee|merchant|remark|reference/i;
+const DEBIT_HEADERS = /debit|withdraw|paid out|money out|\bdr\b/i;
+const CREDIT_HEADERS = /credit|deposit|paid in|money in|\bcr\b/i;
+const AMOUNT_HEADERS = /amount/i;
+
+/**
+ * A first guess for the wizard: the first row followed by a dated row
+ * is taken as the header, and columns are picked by their header names.
+ */
+export function guessColumnMapping(rows: string[][]): ColumnMapping {
+  const mapping: ColumnMapping = {
+    headerRow: 0,
+    dateColumn: -1,
+    dateFormat: 'DD/MM/YYYY',
+    descriptionColumns: [],
+    amount: { kind: 'signed', column: -1, invert: false },
+    bankName: '',
+  };
+
+  const scan = Math.min(rows.length - 1, MAX_HEADER_SCAN);
+  for (let i = 0; i < scan; i++) {
+    const dateColumn = rows[i + 1].findIndex(cell => guessDateFormat([cell]) !== null);
+    if (dateColumn === -1 || rows[i].filter(Boolean).length < 2) continue;
+
+    const dates = rows.slice(i + 1, i + 1 + MAX_HEADER_SCAN).map(row => row[dateColumn] ?? '');
+    mapping.headerRow = i;
+    mapping.dateColumn = dateColumn;
+    mapping.dateFormat = guessDateFormat(dates.filter(d => guessDateFormat([d]))) ?? 'DD/MM/YYYY';
+    break;
+  }
+
+  const headers = rows[mapping.headerRow] ?? [];
+  const find = (pattern: RegExp) =>
+    headers.findIndex((h, i) => i !== mapping.dateColumn && pattern.test(h));
+
+  const description = find(DESCRIPTION_HEADERS);
+  if (description !== -1) mapping.descriptionColumns = [description];
+
+  const debitColumn = find(DEBIT_HEADERS);
+  const creditColumn = find(CREDIT_HEADERS);
+  if (debitColumn !== -1 && creditColumn !== -1 && debitColumn !== creditColumn) {
+    mapping.amount = { kind: 'debit-credit', debitColumn, creditColumn };
+  } else {
+    mapping.amount = { kind: 'signed', column: find(AMOUNT_HEADERS), invert: false };
+  }
+
+  return mapping;
+}
+
+/** What still needs choosing before the mapping can be applied */
+export function mappingProblems(mapping: ColumnMapping): string[] {
+  const problems: string[] = [];
+  if (mapping.dateColumn < 0) problems.push('Choose the date column');
+  if (mapping.descriptionColumns.length === 0) problems.push('Choose at least one description column');
+  if (mapping.amount.kind === 'signed' && mapping.amount.column < 0) {
+    problems.push('Choose the amount column');
+  }
+  if (mapping.amount.kind === 'debit-credit' && (mapping.amount.debitColumn < 0 || mapping.amount.creditColumn < 0)) {
+    problems.push('Choose the debit and credit columns');
+  }
+  return problems;
+}
+
+function mappedAmount(row: string[], amount: AmountMapping): number {
+  if (amount.kind === 'signed') {
+    const value = parseAmountString(row[amount.column] ?? '');
+    return amount.invert ? -value : value;
+  }
+  const debit = parseAmountString(row[amount.debitColumn] ?? '');
+  const credit = parseAmountString(row[amount.creditColumn] ?? '');
+  if (isNaN(debit) && isNaN(credit)) return NaN;
+  // Some exports print debits as negative numbers, others as positive
+  return (isNaN(credit) ? 0 : Math.abs(credit)) - (isNaN(debit) ? 0 : Math.abs(debit));
+}
+
+/**
+ * Turns the rows below the header into transactions. Rows without a
+ * readable date (blank lines, totals, repeated headers) are skipped, and
+ * so are rows whose amount is blank, unreadable or zero (opening and
+ * closing balance lines, subtotals).
+ */
+export function applyColumnMapping(rows: string[][], mapping: ColumnMapping): ParseResult {
+  const transactions: Transaction[] = [];
+  const errors: string[] = [];
+
+  rows.slice(mapping.headerRow + 1).forEach(row => {
+    const dateCell = row[mapping.dateColumn] ?? '';
+    const date = parseMappedDate(dateCell, mapping.dateFormat);
+    if (!date) return;
+
+    const amount = Math.round(mappedAmount(row, mapping.amount) * 100) / 100;
+    if (isNaN(amount) || amount === 0) return;
+
+    const description = [...mapping.descriptionColumns]
+      .sort((a, b) => a - b)
+      .map(column => (row[column] ?? '').trim())
+      .filter(Boolean)
+      .join(' ');
+
+    transactions.push({
+      date,
+      payee: description,
+      rawDescription: description,
+      memo: '',
+      amount,
+      originalDate: dateCell,
+    });
+  });
+
+  if (transactions.length === 0) {
+    errors.push('No transactions found with this column mapping.');
+  }
+
+  return {
+    bankName: mapping.bankName.trim() || 'Custom',
+    statementType: MAPPED_STATEMENT_TYPE,
+    transactions,
+    metadata: {},
+    errors,
+  };
+}
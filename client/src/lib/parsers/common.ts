@@ -0,0 +1,231 @@
+/**
+ * Shared Parser Helpers
+ *
+ * Date, amount and row helpers for the statement parsers that accept
+ * several date styles or both CSV and spreadsheet exports of the same layout.
+ */
+
+import { parseCSVLine } from './adcb';
+import { reportProgress, sharedSheet, type SheetRows } from './progress';
+
+export const SPREADSHEET_MIME_TYPES = [
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-excel',
+];
+
+const MONTHS: Record<string, string> = {
+  jan: '01', feb: '02', mar: '03', apr: '04',
+  may: '05', jun: '06', jul: '07', aug: '08',
+  sep: '09', oct: '10', nov: '11', dec: '12',
+};
+
+// Matches the date styles used across UAE statements, for line scanning
+export const DATE_PATTERN =
+  /\d{1,2}[\/\-.]\d{1,2}[\/\-.]\d{4}|\d{1,2}[\s\-](?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*[\s\-]\d{2,4}|\d{4}-\d{2}-\d{2}/i;
+
+/**
+ * Converts DD/MM/YYYY, DD-MM-YYYY, DD.MM.YYYY, DD Mon YYYY, DD-Mon-YY
+ * or YYYY-MM-DD to YYYY-MM-DD. Returns the input unchanged otherwise.
+ */
+export function parseStatementDate(dateStr: string): string {
+  const str = dateStr.trim();
+
+  const iso = str.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const numeric = str.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{4})/);
+  if (numeric) {
+    const [, dd, mm, yyyy] = numeric;
+    return `${yyyy}-${mm.padStart(2, '0')}-${dd.padStart(2, '0')}`;
+  }
+
+  const named = str.match(/^(\d{1,2})[\s\-]([a-z]{3})[a-z]*[\s\-,]+(\d{2,4})/i);
+  if (named) {
+    const [, dd, mon, year] = named;
+    const mm = MONTHS[mon.toLowerCase()];
+    if (!mm) return dateStr;
+    const yyyy = year.length === 2 ? `20${year}` : year;
+    return `${yyyy}-${mm}-${dd.padStart(2, '0')}`;
+  }
+
+  return dateStr;
+}
+
+/**
+ * Parses "1,234.50", "-1,234.50", "+35.00", "(12.00)", "AED 12.00" or
+ * "12.00 Dr". Returns NaN for blanks and non-numeric cells.
+ */
+export function parseAmountString(str: string): number {
+  if (!str) return NaN;
+  let s = str.replace(/,/g, '').replace(/\b(AED|USD|EUR|GBP)\b/gi, '').trim();
+
+  let negative = false;
+  if (/^\(.*\)$/.test(s)) {
+    negative = true;
+    s = s.slice(1, -1).trim();
+  }
+  if (/\s*Dr\.?$/i.test(s)) {
+    negative = true;
+    s = s.replace(/\s*Dr\.?$/i, '');
+  }
+  s = s.replace(/\s*Cr\.?$/i, '').trim();
+
+  if (!/^[+-]?\d+(\.\d+)?$/.test(s)) return NaN;
+  const value = parseFloat(s);
+  return negative ? -Math.abs(value) : value;
+}
+
+export function lastFourDigits(cardNumber: string): string {
+  const digits = cardNumber.replace(/\D/g, '');
+  return digits.length >= 4 ? digits.slice(-4) : '';
+}
+
+/**
+ * Reads every row of a CSV or the first sheet of a spreadsheet as
+ * trimmed string cells.
+ */
+export async function readRows(file: File): Promise<string[][]> {
+  if (file.name.toLowerCase().endsWith('.csv')) {
+    const content = await file.text();
+    return content
+      .split('\n')
+      .map(l => l.trim())
+      .filter(Boolean)
+      .map(parseCSVLine);
+  }
+  return (await readSheet(file)).rows;
+}
+
+const SHEET_CHUNK_ROWS = 500;
+
+/**
+ * Reads the first sheet of a spreadsheet as trimmed string cells. Rows
+ * are converted in chunks, reporting progress after each one; within a
+ * parse the workbook is only read once.
+ */
+export function readSheet(file: File): Promise<SheetRows> {
+  return sharedSheet(file, async () => {
+    const XLSX = await import('xlsx');
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheetName = workbook.SheetNames[0];
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet?.['!ref']) return { sheetName, rows: [] };
+
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+    const total = range.e.r - range.s.r + 1;
+    const rows: string[][] = [];
+    for (let start = range.s.r; start <= range.e.r; start += SHEET_CHUNK_ROWS) {
+      const end = Math.min(range.e.r, start + SHEET_CHUNK_ROWS - 1);
+      const chunk: any[][] = XLSX.utils.sheet_to_json(sheet, {
+        header: 1,
+        raw: false,
+        range: { s: { r: start, c: range.s.c }, e: { r: end, c: range.e.c } },
+      });
+      for (const row of chunk) rows.push(Array.from(row ?? [], c => String(c ?? '').trim()));
+      reportProgress(file, { stage: 'rows', done: end - range.s.r + 1, total });
+      // Let the progress message out before the next chunk
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    return { sheetName, rows };
+  });
+}
+
+/**
+ * Index of the first row (within `maxScan`) whose lowercased cells
+ * contain every required header, or -1. An array entry lists
+ * alternative names for the same column.
+ */
+export function findHeaderRow(
+  rows: string[][],
+  required: (string | string[])[],
+  maxScan = 20
+): number {
+  for (let i = 0; i < Math.min(rows.length, maxScan); i++) {
+    const cells = rows[i].map(c => c.toLowerCase());
+    const matches = required.every(h =>
+      Array.isArray(h) ? h.some(name => cells.includes(name)) : cells.includes(h)
+    );
+    if (matches) return i;
+  }
+  return -1;
+}
+
+/**
+ * Index of the first header cell that equals one of `names`, or -1.
+ */
+export function findColumn(headers: string[], names: string[]): number {
+  for (const name of names) {
+    const index = headers.indexOf(name);
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+// Narrative keywords that indicate money coming in, used only when a
+// statement gives no sign and no running balance to infer it from
+const INFLOW_KEYWORDS =
+  /\b(SALARY|SAL CREDIT|PAYROLL|REFUND|REVERSAL|DEPOSIT|INWARD|CASH ?BACK|TRANSFER FROM|TRF FROM|CREDIT INTEREST|INTEREST CREDIT|PAYMENT RECEIVED|THANK YOU)\b/i;
+
+export function looksLikeInflow(description: string): boolean {
+  return INFLOW_KEYWORDS.test(description);
+}
+
+// A transaction row: a date followed by text, not "<date> to <date>"
+const TRANSACTION_LINE = new RegExp(`^\\s*(?:${DATE_PATTERN.source})\\s+(?!(?:-|to|till)\\s)\\S`, 'i');
+
+/**
+ * The part of a statement above its first transaction row: letterhead,
+ * account details and column headings. Narrations name other banks and
+ * their IBANs ("RAKBANK CREDIT CARD PAYMENT", "TRANSFER TO AE12 0200 ..."),
+ * so bank detection only looks here.
+ */
+export function statementHeader(text: string): string {
+  const lines = text.split('\n');
+  const first = lines.findIndex(line => TRANSACTION_LINE.test(line));
+  return (first === -1 ? lines : lines.slice(0, first)).join('\n');
+}
+
+/** The bank's name or web address, or its IBAN bank code, in the statement header */
+export function isBrandedHeader(text: string, brand: RegExp, ibanBankCode: string): boolean {
+  const header = statementHeader(text);
+  return brand.test(header) || new RegExp(`\\bAE\\d{2}\\s?${ibanBankCode}\\d`).test(header);
+}
+
+const PERIOD_PATTERN = new RegExp(
+  `(?:Statement Period|Period|From)[:\\s]*(${DATE_PATTERN.source})\\s*(?:-|to|till)\\s*(${DATE_PATTERN.source})`,
+  'i'
+);
+
+/**
+ * Finds "Statement Period 01/01/2026 - 31/01/2026" style ranges and
+ * returns "<from> to <to>" as printed, or null.
+ */
+export function findStatementPeriod(text: string): string | null {
+  const match = text.match(PERIOD_PATTERN);
+  return match ? `${match[1].trim()} to ${match[2].trim()}` : null;
+}
+
+/**
+ * Decides a transaction's direction from its description when the row
+ * itself carries no sign: no Debit/Credit columns, no Cr/Dr indicator,
+ * no negative amount and no running balance to compare against.
+ * Returns null to keep the layout's default.
+ */
+export type DirectionHint = (description: string) => 'inflow' | 'outflow' | null;
+
+// Sharia-compliant banks pay profit instead of interest and charge
+// profit, Murabaha/Ijara instalments and Takaful contributions instead
+// of interest and insurance. Only charge wording counts as an outflow:
+// "Murabaha Disbursement" or "Takaful Claim Settlement" are inflows
+const ISLAMIC_INFLOW =
+  /\b(PROFIT (?:PAID|DISTRIBUTION|CREDIT(?:ED)?)|(?:MUDARABA|MUDARABAH|WAKALA|WAKALAH|MURABAHA DEPOSIT) PROFIT|HIBA|HIBAH)\b/i;
+const ISLAMIC_OUTFLOW =
+  /\b(PROFIT (?:CHARGE[DS]?|ON FINANCE|RATE CHARGE)|(?:MURABAHAH?|TAWARRUQ|IJARAH?) (?:INSTAL{1,2}MENT|REPAYMENT|RENT(?:AL)?)|TAKAFUL (?:PREMIUM|CONTRIBUTION|CHARGE)|LATE PAYMENT (?:CHARITY|DONATION)|CHARITY CHARGE)\b/i;
+
+export const islamicDirection: DirectionHint = description => {
+  // Reversals and waivers flip the usual direction, keep the statement's sign
+  if (/\b(REVERSAL|REVERSED|REFUND|WAIVER|WAIVED)\b/i.test(description)) return null;
+  if (ISLAMIC_INFLOW.test(description)) return 'inflow';
+  if (ISLAMIC_OUTFLOW.test(description)) return 'outflow';
+  return null;
+};
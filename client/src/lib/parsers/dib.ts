@@ -0,0 +1,28 @@
+/**
+ * Dubai Islamic Bank Statement Parsers
+ *
+ * Account Statement and Covered Card Statement PDFs plus the online
+ * banking CSV/XLSX export, via the shared Islamic bank parsers.
+ */
+
+import { createIslamicBankParsers } from './islamic-bank';
+
+export const dibParsers = createIslamicBankParsers({
+  id: 'dib',
+  bank: 'Dubai Islamic Bank',
+  cardStatementType: 'Covered Card Statement',
+  brand: /Dubai Islamic Bank|dib\.ae/i,
+  ibanBankCode: '024',
+  cleanDescription: cleanDIBDescription,
+});
+
+function cleanDIBDescription(desc: string): string {
+  if (!desc) return '';
+  // "POS PURCHASE - CARREFOUR CITY CENTRE DUBAI ARE REF 123456789012" → "CARREFOUR CITY CENTRE DUBAI"
+  return desc
+    .replace(/\s+/g, ' ')
+    .replace(/^POS (?:PURCHASE|TRANSACTION)\s*-?\s*/i, '')
+    .replace(/\bREF(?:ERENCE)?\s*(?:NO\.?)?[:\s]*\d{8,}/i, '')
+    .replace(/\bARE\s*$/, '')
+    .trim();
+}
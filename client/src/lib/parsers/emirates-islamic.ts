@@ -0,0 +1,28 @@
+/**
+ * Emirates Islamic Statement Parsers
+ *
+ * Account Statement and Credit Card Statement (covered card) PDFs plus
+ * the online banking CSV/XLSX export, via the shared Islamic bank parsers.
+ */
+
+import { createIslamicBankParsers } from './islamic-bank';
+
+export const emiratesIslamicParsers = createIslamicBankParsers({
+  id: 'emiratesislamic',
+  bank: 'Emirates Islamic',
+  cardStatementType: 'Credit Card Statement',
+  brand: /Emirates Islamic|emiratesislamic\.ae/i,
+  ibanBankCode: '034',
+  cleanDescription: cleanEIDescription,
+});
+
+function cleanEIDescription(desc: string): string {
+  if (!desc) return '';
+  // Same descriptor style as Emirates NBD: "TALABAT DUBAI ARE", "ABUDHABI" spelt as one word
+  return desc
+    .replace(/\s+/g, ' ')
+    .replace(/^(?:POS|CARD) (?:PURCHASE|TRANSACTION)\s*-?\s*/i, '')
+    .replace(/\bARE\s*$/, '')
+    .replace(/\bABUDHABI\b/gi, 'ABU DHABI')
+    .trim();
+}
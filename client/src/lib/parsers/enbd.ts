@@ -6,73 +6,10 @@
  */
 
 import type { Transaction, ParseResult } from './adcb';
-
-let pdfjsLib: any = null;
-
-async function getPdfJs() {
-  if (pdfjsLib) return pdfjsLib;
-  pdfjsLib = await import('pdfjs-dist');
-  pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
-    'pdfjs-dist/build/pdf.worker.mjs',
-    import.meta.url
-  ).toString();
-  return pdfjsLib;
-}
-
-async function extractTextFromPDF(file: File): Promise<string[]> {
-  const pdfjs = await getPdfJs();
-  const arrayBuffer = await file.arrayBuffer();
-  const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
-
-  const pages: string[] = [];
-
-  for (let i = 1; i <= pdf.numPages; i++) {
-    const page = await pdf.getPage(i);
-    const textContent = await page.getTextContent();
-
-    const items = textContent.items as any[];
-    const rawItems: { x: number; y: number; text: string }[] = [];
-
-    for (const item of items) {
-      if (!item.str || item.str.trim() === '') continue;
-      rawItems.push({
-        x: item.transform[4],
-        y: Math.round(item.transform[5]),
-        text: item.str,
-      });
-    }
-
-    // Sort by y descending to process top-to-bottom
-    rawItems.sort((a, b) => b.y - a.y);
-
-    // Merge items within Y_TOLERANCE px into the same line
-    const Y_TOLERANCE = 4;
-    const mergedLines: { y: number; items: { x: number; text: string }[] }[] = [];
-
-    for (const item of rawItems) {
-      const existing = mergedLines.find(l => Math.abs(l.y - item.y) <= Y_TOLERANCE);
-      if (existing) {
-        existing.items.push({ x: item.x, text: item.text });
-      } else {
-        mergedLines.push({ y: item.y, items: [{ x: item.x, text: item.text }] });
-      }
-    }
-
-    // Sort lines top-to-bottom (descending y)
-    mergedLines.sort((a, b) => b.y - a.y);
-    const pageLines: string[] = [];
-
-    for (const line of mergedLines) {
-      const lineItems = line.items.sort((a, b) => a.x - b.x);
-      const lineText = lineItems.map(i => i.text).join(' ');
-      pageLines.push(lineText);
-    }
-
-    pages.push(pageLines.join('\n'));
-  }
-
-  return pages;
-}
+import type { StatementParser, StatementSample } from './registry';
+import { extractTextFromPDF } from './pdf';
+import { readRows } from './common';
+import { foreignAmountFrom, parseForeignAmount } from './fx';
 
 export function detectENBDType(text: string): 'account' | 'creditcard' | null {
   if (text.includes('Credit Card Statement') || text.includes('كشف حساب بطاقة')) {
@@ -84,15 +21,72 @@ export function detectENBDType(text: string): 'account' | 'creditcard' | null {
   return null;
 }
 
+// "Account Statement" is generic, so the bank name raises confidence
+function enbdPDFConfidence(sample: StatementSample, type: 'account' | 'creditcard'): number {
+  if (detectENBDType(sample.text) !== type) return 0;
+  const branded = /Emirates\s*NBD|emiratesnbd/i.test(sample.text);
+  return branded ? 0.9 : 0.6;
+}
+
+// Date / Details / Amount alone is too generic to claim a spreadsheet; the
+// ENBD export also has a Debit/Credit column or a "Card Number" line above
+// the header
+function enbdXLSXConfidence(sample: StatementSample): number {
+  const leading = sample.rows.slice(0, 10);
+  for (let i = 0; i < leading.length; i++) {
+    const cells = leading[i].map(c => c.toLowerCase());
+    if (!cells.includes('date') || !cells.includes('details')) continue;
+    if (cells.includes('debit/credit')) return 0.9;
+    if (!cells.includes('amount')) continue;
+    const marked = leading.slice(0, i).some(row => row.some(c => /Card Number/i.test(c)))
+      || /Emirates\s*NBD|emiratesnbd/i.test(sample.text);
+    return marked ? 0.7 : 0.3;
+  }
+  return 0;
+}
+
+export const enbdParsers: StatementParser[] = [
+  {
+    id: 'enbd-creditcard-pdf',
+    bank: 'Emirates NBD',
+    statementType: 'Credit Card Statement',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+    detect: sample => sample.format === 'pdf' ? enbdPDFConfidence(sample, 'creditcard') : 0,
+    parse: ({ file, password }) => parseENBDCreditCard(file, password),
+  },
+  {
+    id: 'enbd-account-pdf',
+    bank: 'Emirates NBD',
+    statementType: 'Account Statement',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+    detect: sample => sample.format === 'pdf' ? enbdPDFConfidence(sample, 'account') : 0,
+    parse: ({ file, password }) => parseENBDAccount(file, password),
+  },
+  {
+    id: 'enbd-creditcard-xlsx',
+    bank: 'Emirates NBD',
+    statementType: 'Credit Card Statement',
+    extensions: ['xlsx', 'xls'],
+    mimeTypes: [
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-excel',
+    ],
+    detect: sample => sample.format === 'spreadsheet' ? enbdXLSXConfidence(sample) : 0,
+    parse: ({ file }) => parseENBDCreditCardXLSX(file),
+  },
+];
+
 // ─── Credit Card ────────────────────────────────────────────────
 
-export async function parseENBDCreditCard(file: File): Promise<ParseResult> {
+export async function parseENBDCreditCard(file: File, password?: string): Promise<ParseResult> {
   const transactions: Transaction[] = [];
   const metadata: Record<string, string> = {};
   const errors: string[] = [];
 
   try {
-    const pages = await extractTextFromPDF(file);
+    const pages = await extractTextFromPDF(file, password);
     const fullText = pages.join('\n');
 
     // Metadata
@@ -127,20 +121,16 @@ export async function parseENBDCreditCard(file: File): Promise<ParseResult> {
           // CR = credit/inflow, otherwise debit/outflow
           const amount = crFlag === 'CR' ? cleanAmount : -cleanAmount;
 
-          let memo = '';
-          if (i + 1 < lines.length) {
-            const next = lines[i + 1].trim();
-            if (next.startsWith('(1 AED =') || next.startsWith('(1 USD =')) {
-              memo = next;
-            }
-          }
+          const { memo, fx } = readENBDForeignLine(lines[i + 1], amount);
 
           transactions.push({
             date: parseDDMMYYYY(transDate),
             payee: cleanENBDDescription(description),
+            rawDescription: description,
             memo,
             amount,
             originalDate: transDate,
+            ...fx,
           });
         }
       }
@@ -201,20 +191,16 @@ function parseENBDCreditCardFallback(pages: string[], transactions: Transaction[
 
       const amount = isCredit ? cleanAmount : -cleanAmount;
 
-      let memo = '';
-      if (i + 1 < lines.length) {
-        const next = lines[i + 1].trim();
-        if (next.startsWith('(1 AED =') || next.startsWith('(1 USD =')) {
-          memo = next;
-        }
-      }
+      const { memo, fx } = readENBDForeignLine(lines[i + 1], amount);
 
       transactions.push({
         date: parseDDMMYYYY(dateStr),
         payee: cleanENBDDescription(description),
+        rawDescription: description,
         memo,
         amount,
         originalDate: dateStr,
+        ...fx,
       });
     }
   }
@@ -222,13 +208,15 @@ function parseENBDCreditCardFallback(pages: string[], transactions: Transaction[
 
 // ─── Account Statement ──────────────────────────────────────────
 
-export async function parseENBDAccount(file: File): Promise<ParseResult> {
+export async function parseENBDAccount(file: File, password?: string): Promise<ParseResult> {
   const transactions: Transaction[] = [];
   const metadata: Record<string, string> = {};
   const errors: string[] = [];
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
 
   try {
-    const pages = await extractTextFromPDF(file);
+    const pages = await extractTextFromPDF(file, password);
     const fullText = pages.join('\n');
 
     // Metadata
@@ -246,6 +234,12 @@ export async function parseENBDAccount(file: File): Promise<ParseResult> {
     const currencyMatch = fullText.match(/Currency\s+(AED|USD|EUR|GBP)/);
     if (currencyMatch) metadata['currency'] = currencyMatch[1].trim();
 
+    const openingMatch = fullText.match(/Opening Balance\s+(?:AED\s+)?([\d,]+\.\d{2})\s*(Cr|Dr)?/i);
+    if (openingMatch) openingBalance = signedENBDBalance(openingMatch[1], openingMatch[2]);
+
+    const closingMatch = fullText.match(/Closing Balance\s+(?:AED\s+)?([\d,]+\.\d{2})\s*(Cr|Dr)?/i);
+    if (closingMatch) closingBalance = signedENBDBalance(closingMatch[1], closingMatch[2]);
+
     // Parse transactions
     // ENBD account statement format (from pdftotext):
     //   24 Jan 2026        CC NO.-4033********7337 RMA REF NO.-                 -38564.24                                     3341.06 Cr
@@ -275,14 +269,15 @@ export async function parseENBDAccount(file: File): Promise<ParseResult> {
         // Extract all numbers that look like amounts from the rest of the line
         // We need to separate description from the numeric columns
         // The amounts are right-aligned and may be negative
-        const amountRegex = /-?[\d,]+\.\d{2}/g;
-        const amounts: { value: number; index: number; length: number }[] = [];
+        const amountRegex = /(-?[\d,]+\.\d{2})(?:\s*(Cr|Dr)\b)?/gi;
+        const amounts: { value: number; index: number; length: number; suffix?: string }[] = [];
         let match;
         while ((match = amountRegex.exec(rest)) !== null) {
           amounts.push({
-            value: parseFloat(match[0].replace(/,/g, '')),
+            value: parseFloat(match[1].replace(/,/g, '')),
             index: match.index,
-            length: match[0].length,
+            length: match[1].length,
+            suffix: match[2],
           });
         }
 
@@ -324,16 +319,22 @@ export async function parseENBDAccount(file: File): Promise<ParseResult> {
         // - The first non-balance amount is either debit or credit
 
         let amount: number;
+        let balance: number | undefined;
 
         if (amounts.length >= 2) {
           // First amount is debit or credit, last is balance
           amount = amounts[0].value;
+          const last = amounts[amounts.length - 1];
+          balance = signedENBDBalance(String(last.value), last.suffix);
         } else {
           // Only one amount — could be debit, credit, or balance
           // Check if line ends with "Cr" or "Dr" (balance indicator)
           const balanceCheck = rest.match(/([\d,]+\.\d{2})\s*(?:Cr|Dr)\s*$/i);
           if (balanceCheck && amounts.length === 1) {
-            // This single amount is just the balance, skip
+            // This single amount is just the balance (brought forward), skip
+            if (openingBalance === undefined && transactions.length === 0) {
+              openingBalance = signedENBDBalance(String(amounts[0].value), amounts[0].suffix);
+            }
             continue;
           }
           amount = amounts[0].value;
@@ -344,9 +345,11 @@ export async function parseENBDAccount(file: File): Promise<ParseResult> {
         transactions.push({
           date: parseMonthDate(dateStr),
           payee: cleanENBDDescription(fullDescription),
+          rawDescription: fullDescription,
           memo: '',
           amount,
           originalDate: dateStr,
+          ...(balance !== undefined ? { balance } : {}),
         });
       }
     }
@@ -361,6 +364,8 @@ export async function parseENBDAccount(file: File): Promise<ParseResult> {
     transactions,
     metadata,
     errors,
+    openingBalance,
+    closingBalance,
   };
 }
 
@@ -372,14 +377,7 @@ export async function parseENBDCreditCardXLSX(file: File): Promise<ParseResult>
   const errors: string[] = [];
 
   try {
-    const XLSX = await import('xlsx');
-    const arrayBuffer = await file.arrayBuffer();
-    const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-    const sheetName = workbook.SheetNames[0];
-    const sheet = workbook.Sheets[sheetName];
-
-    // Get all rows as arrays
-    const rows: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false });
+    const rows = await readRows(file);
 
     // Find the header row (contains "Date", "Details", "Amount")
     let headerIndex = -1;
@@ -410,6 +408,8 @@ export async function parseENBDCreditCardXLSX(file: File): Promise<ParseResult>
     const detailsCol = headers.indexOf('details');
     const amountCol = headers.indexOf('amount');
     const debitCreditCol = headers.indexOf('debit/credit');
+    const currencyCol = headers.findIndex(h => h === 'currency' || h === 'original currency');
+    const originalAmountCol = headers.indexOf('original amount');
 
     if (dateCol === -1 || detailsCol === -1 || amountCol === -1) {
       errors.push('Missing required columns (Date, Details, Amount) in XLSX.');
@@ -440,12 +440,22 @@ export async function parseENBDCreditCardXLSX(file: File): Promise<ParseResult>
       // Parse date: "Feb 17, 2026" → YYYY-MM-DD
       const date = parseMonthCommaDate(dateStr);
 
+      const fx = currencyCol !== -1 && originalAmountCol !== -1
+        ? foreignAmountFrom(
+            parseFloat(String(row[originalAmountCol] || '').replace(/,/g, '')),
+            String(row[currencyCol] || ''),
+            amount
+          )
+        : null;
+
       transactions.push({
         date,
         payee: cleanENBDDescription(details),
+        rawDescription: details,
         memo: '',
         amount,
         originalDate: dateStr,
+        ...fx,
       });
     }
   } catch (err: any) {
@@ -463,6 +473,23 @@ export async function parseENBDCreditCardXLSX(file: File): Promise<ParseResult>
 
 // ─── Helpers ────────────────────────────────────────────────────
 
+/**
+ * Foreign-currency purchases are followed by a "(1 AED = 0.2723 USD)" line.
+ * Recognised lines become structured fields; anything unreadable stays in the memo.
+ */
+function readENBDForeignLine(line: string | undefined, amount: number) {
+  const next = line?.trim() ?? '';
+  if (!/^\(1 [A-Z]{3} =/.test(next)) return { memo: '', fx: {} };
+  const fx = parseForeignAmount(next, amount);
+  return fx ? { memo: '', fx } : { memo: next, fx: {} };
+}
+
+/** "3,341.06" + "Dr" → -3341.06; balances without a suffix are in credit */
+function signedENBDBalance(value: string, suffix?: string): number {
+  const amount = Math.abs(parseFloat(value.replace(/,/g, '')));
+  return suffix?.toLowerCase() === 'dr' ? -amount : amount;
+}
+
 function parseDDMMYYYY(dateStr: string): string {
   const parts = dateStr.split('/');
   if (parts.length !== 3) return dateStr;
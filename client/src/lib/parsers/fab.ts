@@ -0,0 +1,215 @@
+/**
+ * FAB Statement Parsers
+ *
+ * Parses First Abu Dhabi Bank statements:
+ *   - Account Statement PDF (Date | Value Date | Description | Debit | Credit | Balance)
+ *   - Online banking account export, CSV or XLSX:
+ *       Rows 1-8: metadata (Account Number, IBAN, Currency, From/To Date)
+ *       Header:   Transaction Date | Value Date | Narration | Reference No | Debit | Credit | Running Balance
+ *       Dates:    "DD/MM/YYYY" or "DD-Mon-YYYY"
+ *   - Credit Card Statement PDF (Transaction Date | Posting Date | Description | Amount [CR])
+ */
+
+import type { Transaction, ParseResult } from './adcb';
+import type { StatementParser, StatementSample } from './registry';
+import { extractTextFromPDF } from './pdf';
+import {
+  DATE_PATTERN,
+  SPREADSHEET_MIME_TYPES,
+  findStatementPeriod,
+  isBrandedHeader,
+  lastFourDigits,
+  readRows,
+  statementHeader,
+} from './common';
+import { parseAccountLines, parseCardLines } from './statement-lines';
+import { findExportHeader, parseExportRows } from './statement-rows';
+
+// FAB's IBAN bank code (inherited from NBAD)
+const FAB_IBAN_CODE = '035';
+
+// Only the header counts: narrations name FAB payees and FAB IBANs
+function isFABBranded(text: string): boolean {
+  return isBrandedHeader(text, /First Abu Dhabi Bank|bankfab\.com/i, FAB_IBAN_CODE);
+}
+
+export function detectFABType(text: string): 'account' | 'creditcard' | null {
+  const header = statementHeader(text);
+  if (!isFABBranded(text) && !/\bFAB\b/.test(header)) return null;
+  if (/Credit Card Statement|Card Statement/i.test(header)) return 'creditcard';
+  if (/Account Statement|Statement of Account/i.test(header)) return 'account';
+  return null;
+}
+
+function fabPDFConfidence(sample: StatementSample, type: 'account' | 'creditcard'): number {
+  if (sample.format !== 'pdf' || detectFABType(sample.text) !== type) return 0;
+  return isFABBranded(sample.text) ? 0.95 : 0.6;
+}
+
+function fabExportConfidence(sample: StatementSample): number {
+  if (sample.format === 'pdf') return 0;
+  const headerIndex = findExportHeader(sample.rows);
+  if (headerIndex === -1) return 0;
+
+  const preamble = sample.rows.slice(0, headerIndex + 1).map(r => r.join(' ')).join('\n');
+  if (isFABBranded(preamble)) return 0.9;
+  // Same layout without FAB branding: report as a candidate, don't claim it
+  return sample.rows[headerIndex].some(c => c.toLowerCase() === 'narration') ? 0.4 : 0.2;
+}
+
+export const fabParsers: StatementParser[] = [
+  {
+    id: 'fab-account-pdf',
+    bank: 'FAB',
+    statementType: 'Account Statement',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+    detect: sample => fabPDFConfidence(sample, 'account'),
+    parse: ({ file, password }) => parseFABAccount(file, password),
+  },
+  {
+    id: 'fab-creditcard-pdf',
+    bank: 'FAB',
+    statementType: 'Credit Card Statement',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+    detect: sample => fabPDFConfidence(sample, 'creditcard'),
+    parse: ({ file, password }) => parseFABCreditCard(file, password),
+  },
+  {
+    id: 'fab-account-export',
+    bank: 'FAB',
+    statementType: 'Account Statement',
+    extensions: ['csv', 'xlsx', 'xls'],
+    mimeTypes: ['text/csv', ...SPREADSHEET_MIME_TYPES],
+    detect: fabExportConfidence,
+    parse: ({ file }) => parseFABAccountExport(file),
+  },
+];
+
+// ─── Account Statement PDF ──────────────────────────────────────
+
+export async function parseFABAccount(file: File, password?: string): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
+  const metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const pages = await extractTextFromPDF(file, password);
+    const fullText = pages.join('\n');
+
+    const accountMatch = fullText.match(/Account (?:Number|No\.?)[:\s]*(\d{6,})/i);
+    if (accountMatch) metadata['accountNumber'] = accountMatch[1];
+
+    const ibanMatch = fullText.match(/IBAN[:\s]*(AE\d{2}(?:\s?\d){19})/i);
+    if (ibanMatch) metadata['iban'] = ibanMatch[1].replace(/\s/g, '');
+
+    const period = findStatementPeriod(fullText);
+    if (period) metadata['period'] = period;
+
+    const currencyMatch = fullText.match(/Currency[:\s]*(AED|USD|EUR|GBP)/);
+    if (currencyMatch) metadata['currency'] = currencyMatch[1];
+
+    const result = parseAccountLines(pages, {
+      cleanDescription: cleanFABDescription,
+      isFooter: line => /First Abu Dhabi Bank|bankfab\.com|computer generated|Page \d+/i.test(line),
+    });
+    transactions = result.transactions;
+    openingBalance = result.openingBalance;
+    closingBalance = result.closingBalance;
+  } catch (err: any) {
+    errors.push(`PDF parsing error: ${err.message}`);
+  }
+
+  return {
+    bankName: 'FAB',
+    statementType: 'Account Statement',
+    transactions,
+    metadata,
+    errors,
+    openingBalance,
+    closingBalance,
+  };
+}
+
+// ─── Credit Card Statement PDF ──────────────────────────────────
+
+export async function parseFABCreditCard(file: File, password?: string): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  const metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const pages = await extractTextFromPDF(file, password);
+    const fullText = pages.join('\n');
+
+    const cardMatch = fullText.match(/Card (?:Number|No\.?)[:\s]*([\dX*]{4}[\dX*\s-]{8,}\d{4})/i);
+    if (cardMatch) {
+      metadata['cardNumber'] = cardMatch[1].replace(/\s+/g, ' ').trim();
+      metadata['cardLastFour'] = lastFourDigits(cardMatch[1]);
+    }
+
+    const period = findStatementPeriod(fullText);
+    if (period) metadata['period'] = period;
+
+    const statementDateMatch = fullText.match(new RegExp(`Statement Date[:\\s]*(${DATE_PATTERN.source})`, 'i'));
+    if (statementDateMatch) metadata['statementDate'] = statementDateMatch[1].trim();
+
+    transactions = parseCardLines(pages, { cleanDescription: cleanFABDescription });
+  } catch (err: any) {
+    errors.push(`PDF parsing error: ${err.message}`);
+  }
+
+  return {
+    bankName: 'FAB',
+    statementType: 'Credit Card Statement',
+    transactions,
+    metadata,
+    errors,
+  };
+}
+
+// ─── Online Banking Export (CSV / XLSX) ─────────────────────────
+
+export async function parseFABAccountExport(file: File): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  let metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const rows = await readRows(file);
+    const result = parseExportRows(rows, { cleanDescription: cleanFABDescription });
+
+    if (result.headerIndex === -1) {
+      errors.push('Could not find header row in FAB account export.');
+    }
+    transactions = result.transactions;
+    metadata = result.metadata;
+  } catch (err: any) {
+    errors.push(`File parsing error: ${err.message}`);
+  }
+
+  return {
+    bankName: 'FAB',
+    statementType: 'Account Statement',
+    transactions,
+    metadata,
+    errors,
+  };
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function cleanFABDescription(desc: string): string {
+  if (!desc) return '';
+  // "POS-PURCHASE CARD NO.4xxx..1234 CARREFOUR MOE DUBAI AE" → "CARREFOUR MOE DUBAI"
+  return desc
+    .replace(/\s+/g, ' ')
+    .replace(/^POS[- ]PURCHASE\s*/i, '')
+    .replace(/CARD NO\.?\s*[\dX*.]+\s*/i, '')
+    .replace(/\s+\bAE\s*$/, '')
+    .replace(/\bREF(?:ERENCE)?\s*(?:NO\.?)?[:\s]*\w{8,}\s*/i, '')
+    .trim();
+}
@@ -0,0 +1,94 @@
+/**
+ * Foreign-Currency Amounts
+ *
+ * Card purchases made abroad are billed in AED, but statements also show
+ * what was paid in the original currency, in one of a few shapes:
+ *   "(1 AED = 0.2723 USD)"          rate line under the transaction (ENBD)
+ *   "USD 49.99" / "49.99 USD"       original amount, optionally "@ 3.6725"
+ *   Currency | Amount columns       spreadsheet exports (Mashreq)
+ *
+ * Each is normalised to the original amount (signed like the AED amount),
+ * its currency code, and the rate as AED per one unit of that currency.
+ */
+
+import type { Transaction } from './adcb';
+
+export type ForeignAmount = Required<Pick<Transaction, 'foreignAmount' | 'foreignCurrency' | 'fxRate'>>;
+
+const LOCAL_CURRENCY = 'AED';
+const RATE = /\b1\s+([A-Z]{3})\s*=\s*([\d,]*\.?\d+)\s*([A-Z]{3})\b/;
+const CODE_THEN_AMOUNT = /\b([A-Z]{3})\s+(-?[\d,]+\.\d{2,3})(?![\d.])/;
+const AMOUNT_THEN_CODE = /(?:^|\s)(-?[\d,]+\.\d{2,3})\s+([A-Z]{3})\b/;
+const AT_RATE = /(?:@|\brate[:\s]+)\s*([\d,]*\.?\d+)/i;
+
+function toNumber(value: string): number {
+  return parseFloat(value.replace(/,/g, ''));
+}
+
+function round(n: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(n * factor) / factor;
+}
+
+/**
+ * Builds the foreign-amount fields from an original amount and currency,
+ * deriving the rate from the AED amount when the statement doesn't print one.
+ */
+export function foreignAmountFrom(
+  amount: number,
+  currency: string,
+  localAmount: number,
+  rate?: number
+): ForeignAmount | null {
+  const code = currency.trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(code) || code === LOCAL_CURRENCY) return null;
+  if (isNaN(amount) || amount === 0 || localAmount === 0) return null;
+
+  const fxRate = rate && rate > 0 ? rate : Math.abs(localAmount) / Math.abs(amount);
+  return {
+    foreignAmount: Math.sign(localAmount) * Math.abs(round(amount, 2)),
+    foreignCurrency: code,
+    fxRate: round(fxRate, 6),
+  };
+}
+
+/**
+ * Reads a foreign amount and/or rate from statement text, or null when
+ * the text carries no foreign-currency information.
+ */
+export function parseForeignAmount(text: string, localAmount: number): ForeignAmount | null {
+  if (!text || localAmount === 0) return null;
+
+  // Rate as AED per unit of foreign currency, from "1 USD = 3.6725 AED" or "1 AED = 0.2723 USD"
+  let rate: number | undefined;
+  let currency = '';
+  const rateMatch = text.match(RATE);
+  if (rateMatch) {
+    const [, from, value, to] = rateMatch;
+    const n = toNumber(value);
+    if (n > 0 && from === LOCAL_CURRENCY && to !== LOCAL_CURRENCY) {
+      rate = 1 / n;
+      currency = to;
+    } else if (n > 0 && to === LOCAL_CURRENCY && from !== LOCAL_CURRENCY) {
+      rate = n;
+      currency = from;
+    }
+  }
+
+  const rest = rateMatch ? text.replace(rateMatch[0], ' ') : text;
+  const explicit = rest.match(CODE_THEN_AMOUNT);
+  const reversed = explicit ? null : rest.match(AMOUNT_THEN_CODE);
+  const code = explicit?.[1] ?? reversed?.[2];
+  const value = explicit?.[2] ?? reversed?.[1];
+
+  if (code && value && code !== LOCAL_CURRENCY) {
+    const atRate = rest.match(AT_RATE);
+    return foreignAmountFrom(toNumber(value), code, localAmount, rate ?? (atRate ? toNumber(atRate[1]) : undefined));
+  }
+
+  if (rate && currency) {
+    return foreignAmountFrom(Math.abs(localAmount) / rate, currency, localAmount, rate);
+  }
+
+  return null;
+}
@@ -0,0 +1,191 @@
+/**
+ * HSBC UAE Statement Parsers
+ *
+ * Parses HSBC Bank Middle East (UAE) PDF statements:
+ *   - Account Statement: Date | Payment type and details | Paid out | Paid in | Balance
+ *       Dates: "02 Jan 26". The date is printed once per day, and each
+ *       entry's amounts sit on its last line:
+ *         02 Jan 26  VIS CARREFOUR
+ *                    DUBAI AE                 120.00           5,880.00
+ *                    CR  SALARY JAN                    20,000.00 25,880.00
+ *   - Credit Card Statement: Transaction Date | Posting Date | Description | Amount [CR]
+ */
+
+import type { Transaction, ParseResult } from './adcb';
+import type { StatementParser, StatementSample } from './registry';
+import { extractTextFromPDF } from './pdf';
+import { DATE_PATTERN, findStatementPeriod, isBrandedHeader, lastFourDigits, statementHeader } from './common';
+import { parseAccountLines, parseCardLines } from './statement-lines';
+
+// HSBC Middle East's IBAN bank code
+const HSBC_IBAN_CODE = '020';
+
+const LEADING_DATE = new RegExp(`^\\s*(${DATE_PATTERN.source})\\s+`, 'i');
+const HAS_AMOUNT = /(?:^|\s)-?[\d,]+\.\d{2}(?:\s|$)/;
+
+// Only the header counts: narrations name HSBC payees and HSBC IBANs
+function isHSBCBranded(text: string): boolean {
+  return isBrandedHeader(text, /HSBC Bank Middle East|hsbc\.ae/i, HSBC_IBAN_CODE);
+}
+
+export function detectHSBCType(text: string): 'account' | 'creditcard' | null {
+  const header = statementHeader(text);
+  if (!isHSBCBranded(text) && !/\bHSBC\b/.test(header)) return null;
+  if (/Credit Card Statement|Card Statement/i.test(header)) return 'creditcard';
+  if (/Account Statement|Statement of Account|Your Statement|Current Account/i.test(header)) return 'account';
+  return null;
+}
+
+function hsbcConfidence(sample: StatementSample, type: 'account' | 'creditcard'): number {
+  if (sample.format !== 'pdf' || detectHSBCType(sample.text) !== type) return 0;
+  // A bare "HSBC" may just be a transfer counterparty on another bank's statement
+  return isHSBCBranded(sample.text) ? 0.95 : 0.7;
+}
+
+export const hsbcParsers: StatementParser[] = [
+  {
+    id: 'hsbc-account-pdf',
+    bank: 'HSBC UAE',
+    statementType: 'Account Statement',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+    detect: sample => hsbcConfidence(sample, 'account'),
+    parse: ({ file, password }) => parseHSBCAccount(file, password),
+  },
+  {
+    id: 'hsbc-creditcard-pdf',
+    bank: 'HSBC UAE',
+    statementType: 'Credit Card Statement',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+    detect: sample => hsbcConfidence(sample, 'creditcard'),
+    parse: ({ file, password }) => parseHSBCCreditCard(file, password),
+  },
+];
+
+// ─── Account Statement ──────────────────────────────────────────
+
+export async function parseHSBCAccount(file: File, password?: string): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
+  const metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const pages = await extractTextFromPDF(file, password);
+    const fullText = pages.join('\n');
+
+    const accountMatch = fullText.match(/Account (?:Number|No\.?)[:\s]*([\d-]{9,})/i);
+    if (accountMatch) metadata['accountNumber'] = accountMatch[1].replace(/-/g, '');
+
+    const ibanMatch = fullText.match(/IBAN[:\s]*(AE\d{2}(?:\s?\d){19})/i);
+    if (ibanMatch) metadata['iban'] = ibanMatch[1].replace(/\s/g, '');
+
+    const period = findStatementPeriod(fullText);
+    if (period) metadata['period'] = period;
+
+    const result = parseAccountLines(pages.map(normalizeHSBCPage), {
+      cleanDescription: cleanHSBCDescription,
+      isFooter: line => /HSBC Bank Middle East|hsbc\.ae|Page \d+/i.test(line),
+    });
+    transactions = result.transactions;
+    openingBalance = result.openingBalance;
+    closingBalance = result.closingBalance;
+  } catch (err: any) {
+    errors.push(`PDF parsing error: ${err.message}`);
+  }
+
+  return {
+    bankName: 'HSBC UAE',
+    statementType: 'Account Statement',
+    transactions,
+    metadata,
+    errors,
+    openingBalance,
+    closingBalance,
+  };
+}
+
+/**
+ * Rewrites each entry as one dated line ending in its amounts, the shape
+ * parseAccountLines expects: description lines are buffered until the
+ * line carrying the amounts, and the day's date is carried forward.
+ */
+function normalizeHSBCPage(pageText: string): string {
+  const output: string[] = [];
+  let currentDate = '';
+  let pending: string[] = [];
+
+  for (const rawLine of pageText.split('\n')) {
+    let line = rawLine.trim();
+    if (!line) continue;
+
+    const dateMatch = line.match(LEADING_DATE);
+    if (dateMatch) {
+      currentDate = dateMatch[1];
+      line = line.substring(dateMatch[0].length).trim();
+      pending = [];
+    }
+
+    if (!currentDate) {
+      output.push(rawLine);
+      continue;
+    }
+
+    if (HAS_AMOUNT.test(line) || /balance (?:brought|carried) forward/i.test(line)) {
+      output.push(`${currentDate} ${[...pending, line].join(' ')}`);
+      pending = [];
+    } else {
+      pending.push(line);
+    }
+  }
+
+  return output.join('\n');
+}
+
+// ─── Credit Card Statement ──────────────────────────────────────
+
+export async function parseHSBCCreditCard(file: File, password?: string): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  const metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const pages = await extractTextFromPDF(file, password);
+    const fullText = pages.join('\n');
+
+    const cardMatch = fullText.match(/Card (?:Number|No\.?)[:\s]*([\dX*]{4}[\dX*\s-]{8,}\d{4})/i);
+    if (cardMatch) {
+      metadata['cardNumber'] = cardMatch[1].replace(/\s+/g, ' ').trim();
+      metadata['cardLastFour'] = lastFourDigits(cardMatch[1]);
+    }
+
+    const period = findStatementPeriod(fullText);
+    if (period) metadata['period'] = period;
+
+    transactions = parseCardLines(pages, { cleanDescription: cleanHSBCDescription });
+  } catch (err: any) {
+    errors.push(`PDF parsing error: ${err.message}`);
+  }
+
+  return {
+    bankName: 'HSBC UAE',
+    statementType: 'Credit Card Statement',
+    transactions,
+    metadata,
+    errors,
+  };
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function cleanHSBCDescription(desc: string): string {
+  if (!desc) return '';
+  // Payment type codes prefix the details: "VIS CARREFOUR DUBAI AE", "DD DEWA", "CR SALARY"
+  return desc
+    .replace(/\s+/g, ' ')
+    .replace(/^(?:VIS|ATM|DD|SO|CR|TFR|BP|CHQ|OBP)\s+/, '')
+    .replace(/\s+AE\s*$/, '')
+    .trim();
+}
@@ -1,123 +1,133 @@
 /**
  * Parser Orchestrator
- * 
- * Auto-detects file type and routes to the appropriate parser.
- * Supports CSV (ADCB), PDF (ENBD), and XLSX (ENBD + Mashreq).
+ *
+ * Reads a sample of the uploaded file, asks the parser registry which
+ * statement parser recognises it, and routes the file to that parser.
+ * Banks and statement types are registered in ./registry.
+ * Spreadsheets and CSVs no parser recognises can still be read with a
+ * column mapping the user saved for that export layout.
+ * Known UAE merchants get a clean payee name, and every parsed
+ * transaction is stamped with a stable import ID.
  */
 
 import type { ParseResult } from './adcb';
-import { detectADCBType, parseADCBAccount, parseADCBCreditCard } from './adcb';
-import { detectENBDType, parseENBDCreditCard, parseENBDAccount, parseENBDCreditCardXLSX } from './enbd';
-import { detectMashreqType, parseMashreqAccount, parseMashreqCreditCard } from './mashreq';
+import { parseCSVLine } from './adcb';
+import { loadPDF } from './pdf';
+import { readRows, readSheet } from './common';
+import { applyColumnMapping, findSavedMapping, type ColumnMapping, type SavedColumnMappings } from './column-mapping';
+import { withImportIds } from '../import-ids';
+import { withMerchantNames } from '../merchants';
+import { withParseContext, type ProgressListener } from './progress';
+import {
+  describeCandidates,
+  detectParser,
+  getParsersForFile,
+  type FileFormat,
+  type StatementSample,
+} from './registry';
 
 export type { Transaction, ParseResult } from './adcb';
+export type { StatementParser, StatementSample, DetectionResult } from './registry';
+export { getParsers, detectParser, DETECTION_THRESHOLD } from './registry';
+export { PDFPasswordError } from './pdf';
+export type { ParseProgress, ProgressListener } from './progress';
+export { readRows } from './common';
 
-export async function parseFile(file: File): Promise<ParseResult> {
-  const fileName = file.name.toLowerCase();
-  
-  if (fileName.endsWith('.csv')) {
-    return parseCSVFile(file);
-  } else if (fileName.endsWith('.pdf')) {
-    return parsePDFFile(file);
-  } else if (fileName.endsWith('.xlsx') || fileName.endsWith('.xls')) {
-    return parseXLSXFile(file);
-  } else {
-    return {
-      bankName: 'Unknown',
-      statementType: 'Unknown',
-      transactions: [],
-      metadata: {},
-      errors: [`Unsupported file type: ${fileName}. Please upload a CSV, PDF, or XLSX file.`],
-    };
-  }
+export interface ParseOptions {
+  password?: string;  // for encrypted PDF statements
+  onProgress?: ProgressListener;
+  columnMappings?: SavedColumnMappings;  // saved by the column-mapping wizard
 }
 
-async function parseCSVFile(file: File): Promise<ParseResult> {
-  const content = await file.text();
-  
-  const type = detectADCBType(content);
-  
-  if (type === 'account') {
-    return parseADCBAccount(content);
-  } else if (type === 'creditcard') {
-    return parseADCBCreditCard(content);
-  } else {
-    return {
-      bankName: 'Unknown',
-      statementType: 'Unknown',
-      transactions: [],
-      metadata: {},
-      errors: ['Could not detect CSV statement type. Currently supports ADCB account and credit card statements.'],
-    };
-  }
+const SAMPLE_ROWS = 20;
+
+export async function parseFile(file: File, options: ParseOptions = {}): Promise<ParseResult> {
+  return withParseContext(file, options.onProgress, () => parseDetected(file, options));
 }
 
-async function parsePDFFile(file: File): Promise<ParseResult> {
-  const pdfjs = await import('pdfjs-dist');
-  pdfjs.GlobalWorkerOptions.workerSrc = new URL(
-    'pdfjs-dist/build/pdf.worker.mjs',
-    import.meta.url
-  ).toString();
-  
-  const arrayBuffer = await file.arrayBuffer();
-  const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
-  const firstPage = await pdf.getPage(1);
-  const textContent = await firstPage.getTextContent();
-  const firstPageText = textContent.items.map((item: any) => item.str).join(' ');
-  
-  const type = detectENBDType(firstPageText);
-  
-  if (type === 'creditcard') {
-    return parseENBDCreditCard(file);
-  } else if (type === 'account') {
-    return parseENBDAccount(file);
-  } else {
-    return {
-      bankName: 'Unknown',
-      statementType: 'Unknown',
-      transactions: [],
-      metadata: {},
-      errors: ['Could not detect PDF statement type. Currently supports Emirates NBD credit card and account statements.'],
-    };
-  }
+/** Reads a CSV or spreadsheet with a column mapping from the wizard */
+export async function parseWithColumnMapping(file: File, mapping: ColumnMapping): Promise<ParseResult> {
+  const result = applyColumnMapping(await readRows(file), mapping);
+  return withImportIds(withMerchantNames(result), file);
 }
 
-async function parseXLSXFile(file: File): Promise<ParseResult> {
-  const XLSX = await import('xlsx');
-  const arrayBuffer = await file.arrayBuffer();
-  const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-  const sheetName = workbook.SheetNames[0];
-  const sheet = workbook.Sheets[sheetName];
-
-  // Read first few rows to detect bank and statement type
-  const rows: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false });
-
-  // Find header row to get column names
-  let headerRow: string[] = [];
-  for (let i = 0; i < Math.min(rows.length, 15); i++) {
-    const row = rows[i];
-    if (!row) continue;
-    const cells = row.map((c: any) => String(c || '').trim().toLowerCase());
-    if (cells.includes('date') && cells.includes('description')) {
-      headerRow = cells;
-      break;
-    }
+async function parseDetected(file: File, { password, columnMappings }: ParseOptions): Promise<ParseResult> {
+  const fileName = file.name.toLowerCase();
+  const parsers = getParsersForFile(file);
+  const format = detectFileFormat(fileName);
+
+  if (parsers.length === 0 || !format) {
+    return unknownResult(
+      `Unsupported file type: ${fileName}. Please upload a CSV, PDF, or XLSX file.`
+    );
   }
 
-  // Try Mashreq detection first (by sheet name or header pattern)
-  const mashreqType = detectMashreqType(sheetName, headerRow);
-  if (mashreqType === 'account') {
-    return parseMashreqAccount(file);
+  // Throws PDFPasswordError for encrypted statements so the caller can prompt
+  const sample = await readSample(file, format, password);
+  const detection = detectParser(sample, parsers);
+
+  if (!detection.parser) {
+    const saved = format !== 'pdf' && columnMappings ? findSavedMapping(sample.rows, columnMappings) : null;
+    if (saved) return parseWithColumnMapping(file, saved);
+
+    const closest = describeCandidates(detection.candidates);
+    return unknownResult(
+      `Could not confidently detect the statement type of ${file.name}.` +
+      (closest ? ` Closest matches: ${closest}.` : ' No supported bank matched this file.')
+    );
   }
-  if (mashreqType === 'creditcard') {
-    return parseMashreqCreditCard(file);
+
+  const result = await detection.parser.parse({ file, sample, password });
+  return withImportIds(withMerchantNames(result), file);
+}
+
+function detectFileFormat(fileName: string): FileFormat | null {
+  if (fileName.endsWith('.csv')) return 'csv';
+  if (fileName.endsWith('.pdf')) return 'pdf';
+  if (fileName.endsWith('.xlsx') || fileName.endsWith('.xls')) return 'spreadsheet';
+  return null;
+}
+
+async function readSample(file: File, format: FileFormat, password?: string): Promise<StatementSample> {
+  if (format === 'csv') {
+    const content = await file.text();
+    const rows = content
+      .split('\n')
+      .map(l => l.trim())
+      .filter(Boolean)
+      .slice(0, SAMPLE_ROWS)
+      .map(parseCSVLine);
+    return { fileName: file.name, format, text: content, rows };
   }
 
-  // Try ENBD detection (has "Details" and "Debit/Credit" columns)
-  if (headerRow.includes('details') && headerRow.includes('debit/credit')) {
-    return parseENBDCreditCardXLSX(file);
+  if (format === 'pdf') {
+    const pdf = await loadPDF(file, password);
+    const firstPage = await pdf.getPage(1);
+    const textContent = await firstPage.getTextContent();
+    const text = textContent.items.map((item: any) => item.str).join(' ');
+    return { fileName: file.name, format, text, rows: [] };
   }
 
-  // Fallback: try ENBD XLSX parser
-  return parseENBDCreditCardXLSX(file);
+  // The parser reads the same rows again from the parse context, not the file
+  const sheet = await readSheet(file);
+  const rows = sheet.rows.slice(0, SAMPLE_ROWS);
+  const sheetName = sheet.sheetName;
+
+  return {
+    fileName: file.name,
+    format,
+    text: rows.map(r => r.join(',')).join('\n'),
+    rows,
+    sheetName,
+  };
+}
+
+function unknownResult(error: string): ParseResult {
+  return {
+    bankName: 'Unknown',
+    statementType: 'Unknown',
+    transactions: [],
+    metadata: {},
+    errors: [error],
+  };
 }
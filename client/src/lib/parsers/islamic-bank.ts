@@ -0,0 +1,231 @@
+/**
+ * Islamic Bank Statement Parsers
+ *
+ * Shared parsers for Sharia-compliant banks whose statements follow the
+ * same layouts (Dubai Islamic Bank, Emirates Islamic):
+ *   - Account Statement PDF (Date | Value Date | Narration | Debit | Credit | Balance)
+ *   - Covered Card Statement PDF (Transaction Date | Posting Date | Description | Amount [CR])
+ *   - Online banking export, CSV or XLSX (account: Debit/Credit columns,
+ *     card: Amount + Dr/Cr columns)
+ *
+ * Each bank passes in its name, branding and IBAN bank code. Where a row
+ * carries no sign of its own, Islamic banking terms decide the direction:
+ * "Profit Paid" and other profit distributions are inflows, profit
+ * charges, Murabaha/Ijara instalments and Takaful contributions are outflows.
+ */
+
+import type { Transaction, ParseResult } from './adcb';
+import type { StatementParser, StatementSample } from './registry';
+import { extractTextFromPDF } from './pdf';
+import {
+  SPREADSHEET_MIME_TYPES,
+  findStatementPeriod,
+  isBrandedHeader,
+  islamicDirection,
+  lastFourDigits,
+  readRows,
+  statementHeader,
+} from './common';
+import { parseAccountLines, parseCardLines } from './statement-lines';
+import { findExportHeader, parseExportRows } from './statement-rows';
+
+export interface IslamicBankConfig {
+  id: string;                 // parser id prefix, e.g. "dib"
+  bank: string;
+  cardStatementType: string;  // e.g. "Covered Card Statement"
+  brand: RegExp;              // bank name or website as printed
+  ibanBankCode: string;       // three digits after "AE" and the check digits
+  cleanDescription: (desc: string) => string;
+}
+
+type StatementKind = 'account' | 'creditcard';
+
+// Only the header counts: narrations name other banks and their IBANs
+function isBranded(config: IslamicBankConfig, text: string): boolean {
+  return isBrandedHeader(text, config.brand, config.ibanBankCode);
+}
+
+function detectType(config: IslamicBankConfig, text: string): StatementKind | null {
+  if (!isBranded(config, text)) return null;
+  const header = statementHeader(text);
+  if (/Covered Card|Credit Card Statement|Card Statement/i.test(header)) return 'creditcard';
+  if (/Account Statement|Statement of Account/i.test(header)) return 'account';
+  return null;
+}
+
+function pdfConfidence(config: IslamicBankConfig, sample: StatementSample, type: StatementKind): number {
+  if (sample.format !== 'pdf') return 0;
+  return detectType(config, sample.text) === type ? 0.95 : 0;
+}
+
+function exportConfidence(config: IslamicBankConfig, sample: StatementSample, type: StatementKind): number {
+  if (sample.format === 'pdf') return 0;
+  const headerIndex = findExportHeader(sample.rows);
+  if (headerIndex === -1) return 0;
+
+  const preamble = sample.rows.slice(0, headerIndex).map(r => r.join(' ')).join('\n');
+  if (!isBranded(config, preamble)) return 0;
+  const isCard = /card/i.test(preamble);
+  return isCard === (type === 'creditcard') ? 0.9 : 0;
+}
+
+export function createIslamicBankParsers(config: IslamicBankConfig): StatementParser[] {
+  const exportTypes = ['csv', 'xlsx', 'xls'];
+  const exportMimeTypes = ['text/csv', ...SPREADSHEET_MIME_TYPES];
+
+  return [
+    {
+      id: `${config.id}-account-pdf`,
+      bank: config.bank,
+      statementType: 'Account Statement',
+      extensions: ['pdf'],
+      mimeTypes: ['application/pdf'],
+      detect: sample => pdfConfidence(config, sample, 'account'),
+      parse: ({ file, password }) => parseAccount(config, file, password),
+    },
+    {
+      id: `${config.id}-creditcard-pdf`,
+      bank: config.bank,
+      statementType: config.cardStatementType,
+      extensions: ['pdf'],
+      mimeTypes: ['application/pdf'],
+      detect: sample => pdfConfidence(config, sample, 'creditcard'),
+      parse: ({ file, password }) => parseCard(config, file, password),
+    },
+    {
+      id: `${config.id}-account-export`,
+      bank: config.bank,
+      statementType: 'Account Statement',
+      extensions: exportTypes,
+      mimeTypes: exportMimeTypes,
+      detect: sample => exportConfidence(config, sample, 'account'),
+      parse: ({ file }) => parseExport(config, file, 'Account Statement'),
+    },
+    {
+      id: `${config.id}-creditcard-export`,
+      bank: config.bank,
+      statementType: config.cardStatementType,
+      extensions: exportTypes,
+      mimeTypes: exportMimeTypes,
+      detect: sample => exportConfidence(config, sample, 'creditcard'),
+      parse: ({ file }) => parseExport(config, file, config.cardStatementType),
+    },
+  ];
+}
+
+// ─── Account Statement PDF ──────────────────────────────────────
+
+async function parseAccount(config: IslamicBankConfig, file: File, password?: string): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
+  const metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const pages = await extractTextFromPDF(file, password);
+    const fullText = pages.join('\n');
+
+    const accountMatch = fullText.match(/Account (?:Number|No\.?)[:\s]*(\d{6,})/i);
+    if (accountMatch) metadata['accountNumber'] = accountMatch[1];
+
+    const ibanMatch = fullText.match(/IBAN[:\s]*(AE\d{2}(?:\s?\d){19})/i);
+    if (ibanMatch) metadata['iban'] = ibanMatch[1].replace(/\s/g, '');
+
+    const period = findStatementPeriod(fullText);
+    if (period) metadata['period'] = period;
+
+    const currencyMatch = fullText.match(/Currency[:\s]*(AED|USD|EUR|GBP)/);
+    if (currencyMatch) metadata['currency'] = currencyMatch[1];
+
+    const result = parseAccountLines(pages, {
+      cleanDescription: config.cleanDescription,
+      isFooter: line => config.brand.test(line) || /computer generated|Page \d+/i.test(line),
+      direction: islamicDirection,
+    });
+    transactions = result.transactions;
+    openingBalance = result.openingBalance;
+    closingBalance = result.closingBalance;
+  } catch (err: any) {
+    errors.push(`PDF parsing error: ${err.message}`);
+  }
+
+  return {
+    bankName: config.bank,
+    statementType: 'Account Statement',
+    transactions,
+    metadata,
+    errors,
+    openingBalance,
+    closingBalance,
+  };
+}
+
+// ─── Covered Card Statement PDF ─────────────────────────────────
+
+async function parseCard(config: IslamicBankConfig, file: File, password?: string): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  const metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const pages = await extractTextFromPDF(file, password);
+    const fullText = pages.join('\n');
+
+    const cardMatch = fullText.match(/Card (?:Number|No\.?)[:\s]*([\dX*]{4}[\dX*\s-]{8,}\d{4})/i);
+    if (cardMatch) {
+      metadata['cardNumber'] = cardMatch[1].replace(/\s+/g, ' ').trim();
+      metadata['cardLastFour'] = lastFourDigits(cardMatch[1]);
+    }
+
+    const period = findStatementPeriod(fullText);
+    if (period) metadata['period'] = period;
+
+    transactions = parseCardLines(pages, {
+      cleanDescription: config.cleanDescription,
+      direction: islamicDirection,
+    });
+  } catch (err: any) {
+    errors.push(`PDF parsing error: ${err.message}`);
+  }
+
+  return {
+    bankName: config.bank,
+    statementType: config.cardStatementType,
+    transactions,
+    metadata,
+    errors,
+  };
+}
+
+// ─── Online Banking Export (CSV / XLSX) ─────────────────────────
+
+async function parseExport(config: IslamicBankConfig, file: File, statementType: string): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  let metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const rows = await readRows(file);
+    const result = parseExportRows(rows, {
+      cleanDescription: config.cleanDescription,
+      direction: islamicDirection,
+    });
+
+    if (result.headerIndex === -1) {
+      errors.push(`Could not find header row in ${config.bank} export.`);
+    }
+    transactions = result.transactions;
+    metadata = result.metadata;
+  } catch (err: any) {
+    errors.push(`File parsing error: ${err.message}`);
+  }
+
+  return {
+    bankName: config.bank,
+    statementType,
+    transactions,
+    metadata,
+    errors,
+  };
+}
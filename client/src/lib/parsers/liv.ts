@@ -0,0 +1,139 @@
+/**
+ * Liv. Statement Parsers
+ *
+ * Parses statements from Liv., Emirates NBD's digital bank:
+ *   - PDF account statement: Date | Description | Debit | Credit | Balance
+ *   - CSV / XLSX export:     Transaction Date | Description | Debit | Credit | Balance
+ *
+ * Liv. Goals are savings pots fed by manual transfers ("Transfer to Goal:
+ * Travel") and by rounding card purchases up ("Round Up - Goal: Travel").
+ * Goal transfers are labelled as internal transfers and each day's
+ * round-ups are merged into one transaction per Goal.
+ */
+
+import type { Transaction, ParseResult } from './adcb';
+import type { StatementParser, StatementSample } from './registry';
+import { extractTextFromPDF } from './pdf';
+import { SPREADSHEET_MIME_TYPES, findStatementPeriod, readRows } from './common';
+import { parseAccountLines } from './statement-lines';
+import { findExportHeader, parseExportRows } from './statement-rows';
+import { applyPotRules, type PotRules } from './pots';
+
+const LIV_POTS: PotRules = {
+  label: 'Liv. Goal',
+  transfer: [
+    /round[- ]?ups?\b.*?\bgoal[:\s-]+(.+)$/i,
+    /(?:transfer|top[- ]?up|moved?)\s+(?:to|from)\s+goal[:\s-]+(.+)$/i,
+    /\bgoal[:\s-]+(.+?)\s+(?:top[- ]?up|withdrawal|redemption)$/i,
+  ],
+  roundUp: /\bround[- ]?ups?\b/i,
+};
+
+function isLivBranded(text: string): boolean {
+  return /liv\.me|\bLiv\.(?:\s|$)|Liv\. by Emirates NBD|Liv Bank/i.test(text);
+}
+
+function livConfidence(sample: StatementSample): number {
+  const branded = isLivBranded(sample.text);
+  const named = /(^|[^a-z])liv([^a-z]|$)/i.test(sample.fileName);
+
+  if (sample.format === 'pdf') {
+    // Liv. statements also carry the Emirates NBD name, so outrank it
+    return branded && /statement/i.test(sample.text) ? 0.95 : 0;
+  }
+  if (!branded && !named) return 0;
+  if (findExportHeader(sample.rows) === -1) return 0;
+  return branded || LIV_POTS.roundUp!.test(sample.text) ? 0.9 : 0.7;
+}
+
+export const livParsers: StatementParser[] = [
+  {
+    id: 'liv-account-pdf',
+    bank: 'Liv.',
+    statementType: 'Account Statement',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+    detect: livConfidence,
+    parse: ({ file, password }) => parseLivPDF(file, password),
+  },
+  {
+    id: 'liv-account-export',
+    bank: 'Liv.',
+    statementType: 'Account Statement',
+    extensions: ['csv', 'xlsx', 'xls'],
+    mimeTypes: ['text/csv', ...SPREADSHEET_MIME_TYPES],
+    detect: livConfidence,
+    parse: ({ file }) => parseLivExport(file),
+  },
+];
+
+// ─── PDF Statement ──────────────────────────────────────────────
+
+export async function parseLivPDF(file: File, password?: string): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
+  const metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const pages = await extractTextFromPDF(file, password);
+    const fullText = pages.join('\n');
+
+    const accountMatch = fullText.match(/Account (?:Number|No\.?)[:\s]*(\d{6,})/i);
+    if (accountMatch) metadata['accountNumber'] = accountMatch[1];
+
+    const ibanMatch = fullText.match(/IBAN[:\s]*(AE\d{2}(?:\s?\d){19})/i);
+    if (ibanMatch) metadata['iban'] = ibanMatch[1].replace(/\s/g, '');
+
+    const period = findStatementPeriod(fullText);
+    if (period) metadata['period'] = period;
+
+    const result = parseAccountLines(pages, {
+      cleanDescription: cleanLivDescription,
+      isFooter: line => /liv\.me|Emirates NBD|Page \d+/i.test(line),
+    });
+    transactions = applyPotRules(result.transactions, LIV_POTS);
+    openingBalance = result.openingBalance;
+    closingBalance = result.closingBalance;
+  } catch (err: any) {
+    errors.push(`PDF parsing error: ${err.message}`);
+  }
+
+  return { bankName: 'Liv.', statementType: 'Account Statement', transactions, metadata, errors, openingBalance, closingBalance };
+}
+
+// ─── App Export (CSV / XLSX) ────────────────────────────────────
+
+export async function parseLivExport(file: File): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  let metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const rows = await readRows(file);
+    const result = parseExportRows(rows, { cleanDescription: cleanLivDescription });
+
+    if (result.headerIndex === -1) {
+      errors.push('Could not find header row in Liv. export.');
+    }
+    transactions = applyPotRules(result.transactions, LIV_POTS);
+    metadata = result.metadata;
+  } catch (err: any) {
+    errors.push(`File parsing error: ${err.message}`);
+  }
+
+  return { bankName: 'Liv.', statementType: 'Account Statement', transactions, metadata, errors };
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function cleanLivDescription(desc: string): string {
+  if (!desc) return '';
+  // Card lines follow the Emirates NBD descriptor style: "TALABAT DUBAI ARE"
+  return desc
+    .replace(/\s+/g, ' ')
+    .replace(/^(?:POS|Card) (?:Purchase|Transaction)\s*[-:]?\s*/i, '')
+    .replace(/\bARE\s*$/, '')
+    .trim();
+}
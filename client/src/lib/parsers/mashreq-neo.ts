@@ -0,0 +1,137 @@
+/**
+ * Mashreq Neo Statement Parsers
+ *
+ * Parses statements generated from the Mashreq Neo app (the digital
+ * account, as opposed to the Mashreq online banking XLSX in mashreq.ts):
+ *   - PDF account statement: Date | Description | Debit | Credit | Balance
+ *   - CSV export:            Date | Description | Amount (signed) | Balance
+ *
+ * NEO Goals are savings pots; goal top-ups/withdrawals become internal
+ * transfers and "Round-Up" sweeps are merged per day and Goal.
+ */
+
+import type { Transaction, ParseResult } from './adcb';
+import type { StatementParser, StatementSample } from './registry';
+import { extractTextFromPDF } from './pdf';
+import { SPREADSHEET_MIME_TYPES, findStatementPeriod, readRows } from './common';
+import { parseAccountLines } from './statement-lines';
+import { findExportHeader, parseExportRows } from './statement-rows';
+import { applyPotRules, type PotRules } from './pots';
+
+const NEO_POTS: PotRules = {
+  label: 'Mashreq Neo Goal',
+  transfer: [
+    /round[- ]?ups?\b.*?\bgoal[:\s-]+(.+)$/i,
+    /(?:transfer|top[- ]?up|moved?)\s+(?:to|from)\s+(?:neo\s+)?goal[:\s-]+(.+)$/i,
+    /\bneo\s+goals?\b/i,
+  ],
+  roundUp: /\bround[- ]?ups?\b/i,
+};
+
+function isNeoBranded(text: string): boolean {
+  return /Mashreq\s*Neo|mashreqneo/i.test(text);
+}
+
+function neoConfidence(sample: StatementSample): number {
+  const branded = isNeoBranded(sample.text);
+  const named = /neo/i.test(sample.fileName);
+
+  if (sample.format === 'pdf') {
+    return branded && /statement/i.test(sample.text) ? 0.9 : 0;
+  }
+  if (!branded && !named) return 0;
+  if (findExportHeader(sample.rows) === -1) return 0;
+  return branded ? 0.9 : 0.7;
+}
+
+export const mashreqNeoParsers: StatementParser[] = [
+  {
+    id: 'mashreq-neo-account-pdf',
+    bank: 'Mashreq Neo',
+    statementType: 'Account Statement',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+    detect: neoConfidence,
+    parse: ({ file, password }) => parseMashreqNeoPDF(file, password),
+  },
+  {
+    id: 'mashreq-neo-account-export',
+    bank: 'Mashreq Neo',
+    statementType: 'Account Statement',
+    extensions: ['csv', 'xlsx', 'xls'],
+    mimeTypes: ['text/csv', ...SPREADSHEET_MIME_TYPES],
+    detect: neoConfidence,
+    parse: ({ file }) => parseMashreqNeoExport(file),
+  },
+];
+
+// ─── PDF Statement ──────────────────────────────────────────────
+
+export async function parseMashreqNeoPDF(file: File, password?: string): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
+  const metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const pages = await extractTextFromPDF(file, password);
+    const fullText = pages.join('\n');
+
+    const accountMatch = fullText.match(/Account (?:Number|No\.?)[:\s]*(\d{6,})/i);
+    if (accountMatch) metadata['accountNumber'] = accountMatch[1];
+
+    const ibanMatch = fullText.match(/IBAN[:\s]*(AE\d{2}(?:\s?\d){19})/i);
+    if (ibanMatch) metadata['iban'] = ibanMatch[1].replace(/\s/g, '');
+
+    const period = findStatementPeriod(fullText);
+    if (period) metadata['period'] = period;
+
+    const result = parseAccountLines(pages, {
+      cleanDescription: cleanNeoDescription,
+      isFooter: line => /Mashreq|Page \d+/i.test(line),
+    });
+    transactions = applyPotRules(result.transactions, NEO_POTS);
+    openingBalance = result.openingBalance;
+    closingBalance = result.closingBalance;
+  } catch (err: any) {
+    errors.push(`PDF parsing error: ${err.message}`);
+  }
+
+  return { bankName: 'Mashreq Neo', statementType: 'Account Statement', transactions, metadata, errors, openingBalance, closingBalance };
+}
+
+// ─── App Export (CSV / XLSX) ────────────────────────────────────
+
+export async function parseMashreqNeoExport(file: File): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  let metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const rows = await readRows(file);
+    const result = parseExportRows(rows, { cleanDescription: cleanNeoDescription });
+
+    if (result.headerIndex === -1) {
+      errors.push('Could not find header row in Mashreq Neo export.');
+    }
+    transactions = applyPotRules(result.transactions, NEO_POTS);
+    metadata = result.metadata;
+  } catch (err: any) {
+    errors.push(`File parsing error: ${err.message}`);
+  }
+
+  return { bankName: 'Mashreq Neo', statementType: 'Account Statement', transactions, metadata, errors };
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function cleanNeoDescription(desc: string): string {
+  if (!desc) return '';
+  // Same noise as Mashreq online banking: SRN references and IBANs
+  return desc
+    .replace(/\s+/g, ' ')
+    .replace(/\s*SRN:\s*\S+/gi, '')
+    .replace(/\/AE\d{20,}/g, '')
+    .trim();
+}
@@ -22,9 +22,13 @@
  *   Row 13+: transaction data
  *   Dates: strings "DD Mon YYYY" (e.g., "01 Jan 2026")
  *   Local Currency: negative = debit, positive = credit
+ *   Currency / Amount: the original transaction currency and amount
  */
 
 import type { Transaction, ParseResult } from './adcb';
+import type { StatementParser, StatementSample } from './registry';
+import { parseAmountString, readRows } from './common';
+import { foreignAmountFrom } from './fx';
 
 type MashreqType = 'account' | 'creditcard' | null;
 
@@ -41,20 +45,62 @@ export function detectMashreqType(sheetName: string, headers: string[]): Mashreq
   return null;
 }
 
+// The sheet name is Mashreq-specific; header columns alone are generic
+function mashreqConfidence(sample: StatementSample, type: 'account' | 'creditcard'): number {
+  if (sample.format !== 'spreadsheet') return 0;
+
+  let headers: string[] = [];
+  for (const row of sample.rows.slice(0, 15)) {
+    const cells = row.map(c => c.toLowerCase());
+    if (cells.includes('date') && cells.includes('description')) {
+      headers = cells;
+      break;
+    }
+  }
+
+  const sheetName = sample.sheetName ?? '';
+  if (detectMashreqType(sheetName, headers) !== type) return 0;
+  return detectMashreqType(sheetName, []) === type ? 0.95 : 0.6;
+}
+
+export const mashreqParsers: StatementParser[] = [
+  {
+    id: 'mashreq-account-xlsx',
+    bank: 'Mashreq',
+    statementType: 'Account Statement',
+    extensions: ['xlsx', 'xls'],
+    mimeTypes: [
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-excel',
+    ],
+    detect: sample => mashreqConfidence(sample, 'account'),
+    parse: ({ file }) => parseMashreqAccount(file),
+  },
+  {
+    id: 'mashreq-creditcard-xlsx',
+    bank: 'Mashreq',
+    statementType: 'Credit Card Statement',
+    extensions: ['xlsx', 'xls'],
+    mimeTypes: [
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-excel',
+    ],
+    detect: sample => mashreqConfidence(sample, 'creditcard'),
+    parse: ({ file }) => parseMashreqCreditCard(file),
+  },
+];
+
 // ─── Account Statement ──────────────────────────────────────────
 
 export async function parseMashreqAccount(file: File): Promise<ParseResult> {
   const transactions: Transaction[] = [];
   const metadata: Record<string, string> = {};
   const errors: string[] = [];
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
 
   try {
-    const XLSX = await import('xlsx');
-    const arrayBuffer = await file.arrayBuffer();
-    const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-    const sheetName = workbook.SheetNames[0];
-    const sheet = workbook.Sheets[sheetName];
-    const rows: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false });
+    const rows = await readRows(file);
 
     // Extract metadata from header rows
     for (let i = 0; i < Math.min(rows.length, 12); i++) {
@@ -66,6 +112,8 @@ export async function parseMashreqAccount(file: File): Promise<ParseResult> {
       if (key === 'Account Number') metadata['accountNumber'] = val;
       if (key === 'Account Currency') metadata['currency'] = val;
       if (key === 'Account Type') metadata['accountType'] = val;
+      if (key === 'Opening Balance') openingBalance = parseMashreqBalance(val);
+      if (key === 'Closing Balance') closingBalance = parseMashreqBalance(val);
     }
 
     // Find header row
@@ -90,6 +138,7 @@ export async function parseMashreqAccount(file: File): Promise<ParseResult> {
     const descCol = headers.indexOf('description');
     const creditCol = headers.indexOf('credit');
     const debitCol = headers.indexOf('debit');
+    const balanceCol = headers.indexOf('balance');
 
     if (dateCol === -1 || descCol === -1) {
       errors.push('Missing required columns (Date, Description) in Mashreq account statement.');
@@ -123,13 +172,16 @@ export async function parseMashreqAccount(file: File): Promise<ParseResult> {
       if (isNaN(amount) || amount === 0) continue;
 
       const date = parseMashreqDate(dateStr);
+      const balance = balanceCol !== -1 && row[balanceCol] ? parseMashreqBalance(String(row[balanceCol])) : undefined;
 
       transactions.push({
         date,
         payee: cleanMashreqDescription(description),
+        rawDescription: description,
         memo: '',
         amount,
         originalDate: dateStr,
+        ...(balance !== undefined ? { balance } : {}),
       });
     }
   } catch (err: any) {
@@ -142,6 +194,8 @@ export async function parseMashreqAccount(file: File): Promise<ParseResult> {
     transactions,
     metadata,
     errors,
+    openingBalance,
+    closingBalance,
   };
 }
 
@@ -153,12 +207,7 @@ export async function parseMashreqCreditCard(file: File): Promise<ParseResult> {
   const errors: string[] = [];
 
   try {
-    const XLSX = await import('xlsx');
-    const arrayBuffer = await file.arrayBuffer();
-    const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-    const sheetName = workbook.SheetNames[0];
-    const sheet = workbook.Sheets[sheetName];
-    const rows: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false });
+    const rows = await readRows(file);
 
     // Extract metadata from header rows
     for (let i = 0; i < Math.min(rows.length, 12); i++) {
@@ -194,6 +243,7 @@ export async function parseMashreqCreditCard(file: File): Promise<ParseResult> {
     const descCol = headers.indexOf('description');
     const localCurrencyCol = headers.indexOf('local currency');
     const amountCol = headers.indexOf('amount');
+    const currencyCol = headers.indexOf('currency');
 
     if (dateCol === -1 || descCol === -1) {
       errors.push('Missing required columns (Date, Description) in Mashreq credit card statement.');
@@ -228,12 +278,19 @@ export async function parseMashreqCreditCard(file: File): Promise<ParseResult> {
 
       const date = parseMashreqDate(dateStr);
 
+      // Purchases abroad keep their original currency and amount alongside the AED value
+      const fx = localCurrencyCol !== -1 && currencyCol !== -1 && amountCol !== -1 && row[amountCol] != null
+        ? foreignAmountFrom(parseFloat(String(row[amountCol]).replace(/,/g, '')), String(row[currencyCol] || ''), amount)
+        : null;
+
       transactions.push({
         date,
         payee: cleanMashreqCCDescription(description),
+        rawDescription: description,
         memo: '',
         amount,
         originalDate: dateStr,
+        ...fx,
       });
     }
   } catch (err: any) {
@@ -269,6 +326,11 @@ function parseMashreqDate(dateStr: string): string {
   return `${year}-${mm}-${day.padStart(2, '0')}`;
 }
 
+function parseMashreqBalance(value: string): number | undefined {
+  const balance = parseAmountString(value);
+  return isNaN(balance) ? undefined : balance;
+}
+
 function cleanMashreqDescription(desc: string): string {
   if (!desc) return '';
   // Remove multi-line noise: SRN references, IBAN numbers, internal codes
@@ -0,0 +1,113 @@
+/**
+ * PDF Loading Helpers
+ *
+ * Shared pdf.js setup for the PDF statement parsers.
+ * Most UAE banks email statements as encrypted PDFs, so every document
+ * is opened through loadPDF, which turns pdf.js password failures into
+ * a PDFPasswordError the UI can react to.
+ *
+ * extractTextFromPDF rebuilds visual lines from pdf.js text items, which
+ * is what the line-based statement parsers match against. It reports
+ * page-by-page progress.
+ */
+
+import { reportProgress } from './progress';
+
+let pdfjsLib: any = null;
+
+export async function getPdfJs() {
+  if (pdfjsLib) return pdfjsLib;
+  pdfjsLib = await import('pdfjs-dist');
+  pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
+    'pdfjs-dist/build/pdf.worker.mjs',
+    import.meta.url
+  ).toString();
+  return pdfjsLib;
+}
+
+export class PDFPasswordError extends Error {
+  readonly fileName: string;
+  readonly incorrectPassword: boolean;
+
+  constructor(fileName: string, incorrectPassword: boolean) {
+    super(
+      incorrectPassword
+        ? `Incorrect password for ${fileName}`
+        : `${fileName} is password protected`
+    );
+    this.name = 'PDFPasswordError';
+    this.fileName = fileName;
+    this.incorrectPassword = incorrectPassword;
+  }
+}
+
+export async function loadPDF(file: File, password?: string): Promise<any> {
+  const pdfjs = await getPdfJs();
+  const arrayBuffer = await file.arrayBuffer();
+
+  try {
+    return await pdfjs.getDocument({ data: arrayBuffer, password }).promise;
+  } catch (err: any) {
+    if (err?.name === 'PasswordException') {
+      throw new PDFPasswordError(
+        file.name,
+        err.code === pdfjs.PasswordResponses.INCORRECT_PASSWORD
+      );
+    }
+    throw err;
+  }
+}
+
+export async function extractTextFromPDF(file: File, password?: string): Promise<string[]> {
+  const pdf = await loadPDF(file, password);
+
+  const pages: string[] = [];
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+
+    const items = textContent.items as any[];
+    const rawItems: { x: number; y: number; text: string }[] = [];
+
+    for (const item of items) {
+      if (!item.str || item.str.trim() === '') continue;
+      rawItems.push({
+        x: item.transform[4],
+        y: Math.round(item.transform[5]),
+        text: item.str,
+      });
+    }
+
+    // Sort by y descending to process top-to-bottom
+    rawItems.sort((a, b) => b.y - a.y);
+
+    // Merge items within Y_TOLERANCE px into the same line
+    const Y_TOLERANCE = 4;
+    const mergedLines: { y: number; items: { x: number; text: string }[] }[] = [];
+
+    for (const item of rawItems) {
+      const existing = mergedLines.find(l => Math.abs(l.y - item.y) <= Y_TOLERANCE);
+      if (existing) {
+        existing.items.push({ x: item.x, text: item.text });
+      } else {
+        mergedLines.push({ y: item.y, items: [{ x: item.x, text: item.text }] });
+      }
+    }
+
+    // Sort lines top-to-bottom (descending y)
+    mergedLines.sort((a, b) => b.y - a.y);
+    const pageLines: string[] = [];
+
+    for (const line of mergedLines) {
+      const lineItems = line.items.sort((a, b) => a.x - b.x);
+      const lineText = lineItems.map(i => i.text).join(' ');
+      pageLines.push(lineText);
+    }
+
+    pages.push(pageLines.join('\n'));
+    reportProgress(file, { stage: 'pages', done: i, total: pdf.numPages });
+  }
+
+  return pages;
+}
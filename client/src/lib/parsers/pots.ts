@@ -0,0 +1,71 @@
+/**
+ * Savings Pots
+ *
+ * App-only banks let customers park money in sub-balances (Wio Saving
+ * Spaces, Liv. Goals, Zand savings, Mashreq Neo goals) and round card
+ * purchases up into them. On the main account statement these show as
+ * internal transfers with bank-specific wording, and round-ups add one
+ * tiny debit per purchase.
+ *
+ * The helpers here give internal transfers a stable payee naming the
+ * pot, and collapse each day's round-ups into a single transaction.
+ */
+
+import type { Transaction } from './adcb';
+
+export interface PotRules {
+  label: string;             // e.g. "Wio Saving Space"
+  transfer: RegExp[];        // group 1, when present, is the pot name
+  roundUp?: RegExp;
+  exclude?: RegExp;          // real income or fees that mention a pot, e.g. interest
+}
+
+export function potName(description: string, rules: PotRules): string | null {
+  if (rules.exclude?.test(description)) return null;
+  for (const pattern of rules.transfer) {
+    const match = description.match(pattern);
+    if (match) {
+      const name = (match[1] ?? '').replace(/^['"\s]+|['"\s.]+$/g, '');
+      return name ? `${rules.label}: ${name}` : rules.label;
+    }
+  }
+  return null;
+}
+
+/**
+ * Renames internal pot transfers and merges round-ups per day and pot.
+ * Round-ups keep their count in the memo so the total stays traceable.
+ */
+export function applyPotRules(transactions: Transaction[], rules: PotRules): Transaction[] {
+  const result: Transaction[] = [];
+  const roundUps = new Map<string, { tx: Transaction; count: number }>();
+
+  for (const tx of transactions) {
+    if (rules.roundUp?.test(tx.payee)) {
+      const pot = potName(tx.payee, rules) ?? rules.label;
+      const key = `${tx.date}|${pot}|${Math.sign(tx.amount)}`;
+      const existing = roundUps.get(key);
+      if (existing) {
+        existing.tx.amount = Math.round((existing.tx.amount + tx.amount) * 100) / 100;
+        existing.count++;
+        existing.tx.memo = `${existing.count} round-ups`;
+      } else {
+        // A merged row spans several balance movements, so it has no single running balance
+        const merged: Transaction = { ...tx, payee: pot, memo: '1 round-up', balance: undefined };
+        roundUps.set(key, { tx: merged, count: 1 });
+        result.push(merged);
+      }
+      continue;
+    }
+
+    const pot = potName(tx.payee, rules);
+    if (pot) {
+      result.push({ ...tx, payee: pot, memo: tx.memo || 'Internal transfer' });
+      continue;
+    }
+
+    result.push(tx);
+  }
+
+  return result;
+}
@@ -0,0 +1,57 @@
+/**
+ * Parse Progress
+ *
+ * Long-running steps report how far they have got: pages for PDFs,
+ * rows for spreadsheets. parseFile opens a context for the file it is
+ * parsing, keyed by the File, so the bank parsers can report without
+ * threading a callback through every signature, and concurrent parses
+ * on the same thread each reach their own listener.
+ *
+ * The context also holds the file's spreadsheet rows once read, so
+ * detection and the bank parser share one read of the workbook.
+ */
+
+export interface ParseProgress {
+  stage: 'pages' | 'rows';
+  done: number;
+  total: number;
+}
+
+export type ProgressListener = (progress: ParseProgress) => void;
+
+export interface SheetRows {
+  sheetName: string;
+  rows: string[][];
+}
+
+interface ParseContext {
+  onProgress?: ProgressListener;
+  sheet?: Promise<SheetRows>;
+}
+
+const contexts = new WeakMap<File, ParseContext>();
+
+export function reportProgress(file: File, progress: ParseProgress): void {
+  contexts.get(file)?.onProgress?.(progress);
+}
+
+export async function withParseContext<T>(
+  file: File,
+  onProgress: ProgressListener | undefined,
+  run: () => Promise<T>
+): Promise<T> {
+  contexts.set(file, { onProgress });
+  try {
+    return await run();
+  } finally {
+    contexts.delete(file);
+  }
+}
+
+/** Reads the sheet once per parse; outside a parse it reads every time */
+export function sharedSheet(file: File, read: () => Promise<SheetRows>): Promise<SheetRows> {
+  const context = contexts.get(file);
+  if (!context) return read();
+  context.sheet ??= read();
+  return context.sheet;
+}
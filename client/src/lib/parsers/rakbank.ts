@@ -0,0 +1,154 @@
+/**
+ * RAKBANK Statement Parsers
+ *
+ * Parses National Bank of Ras Al Khaimah PDF statements:
+ *   - Account Statement:     Date | Description | Cheque No | Debit | Credit | Balance
+ *   - Credit Card Statement: Transaction Date | Posting Date | Description | Amount (AED) [CR]
+ *
+ * Detection requires RAKBANK's own name, IBAN bank code or web address in
+ * the statement header, so the generic "Account Statement" heading never
+ * decides on its own and a "RAKBANK CREDIT CARD PAYMENT" narration on
+ * another bank's statement doesn't either.
+ */
+
+import type { Transaction, ParseResult } from './adcb';
+import type { StatementParser, StatementSample } from './registry';
+import { extractTextFromPDF } from './pdf';
+import { findStatementPeriod, isBrandedHeader, lastFourDigits, statementHeader } from './common';
+import { parseAccountLines, parseCardLines } from './statement-lines';
+
+// RAKBANK's IBAN bank code
+const RAKBANK_IBAN_CODE = '040';
+
+function isRAKBANKBranded(text: string): boolean {
+  return isBrandedHeader(text, /RAKBANK|National Bank of Ras Al[- ]Khaimah|rakbank\.ae/i, RAKBANK_IBAN_CODE);
+}
+
+export function detectRAKBANKType(text: string): 'account' | 'creditcard' | null {
+  if (!isRAKBANKBranded(text)) return null;
+  const header = statementHeader(text);
+  if (/Credit Card Statement|Card Statement/i.test(header)) return 'creditcard';
+  if (/Account Statement|Statement of Account/i.test(header)) return 'account';
+  return null;
+}
+
+function rakbankConfidence(sample: StatementSample, type: 'account' | 'creditcard'): number {
+  if (sample.format !== 'pdf') return 0;
+  return detectRAKBANKType(sample.text) === type ? 0.95 : 0;
+}
+
+export const rakbankParsers: StatementParser[] = [
+  {
+    id: 'rakbank-account-pdf',
+    bank: 'RAKBANK',
+    statementType: 'Account Statement',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+    detect: sample => rakbankConfidence(sample, 'account'),
+    parse: ({ file, password }) => parseRAKBANKAccount(file, password),
+  },
+  {
+    id: 'rakbank-creditcard-pdf',
+    bank: 'RAKBANK',
+    statementType: 'Credit Card Statement',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+    detect: sample => rakbankConfidence(sample, 'creditcard'),
+    parse: ({ file, password }) => parseRAKBANKCreditCard(file, password),
+  },
+];
+
+// ─── Account Statement ──────────────────────────────────────────
+
+export async function parseRAKBANKAccount(file: File, password?: string): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
+  const metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const pages = await extractTextFromPDF(file, password);
+    const fullText = pages.join('\n');
+
+    const accountMatch = fullText.match(/Account (?:Number|No\.?)[:\s]*(\d{6,})/i);
+    if (accountMatch) metadata['accountNumber'] = accountMatch[1];
+
+    const ibanMatch = fullText.match(/IBAN[:\s]*(AE\d{2}(?:\s?\d){19})/i);
+    if (ibanMatch) metadata['iban'] = ibanMatch[1].replace(/\s/g, '');
+
+    const period = findStatementPeriod(fullText);
+    if (period) metadata['period'] = period;
+
+    const currencyMatch = fullText.match(/Currency[:\s]*(AED|USD|EUR|GBP)/);
+    if (currencyMatch) metadata['currency'] = currencyMatch[1];
+
+    const result = parseAccountLines(pages, {
+      cleanDescription: cleanRAKBANKDescription,
+      isFooter: line => /RAKBANK|rakbank\.ae|Page \d+|computer generated/i.test(line),
+    });
+    transactions = result.transactions;
+    openingBalance = result.openingBalance;
+    closingBalance = result.closingBalance;
+  } catch (err: any) {
+    errors.push(`PDF parsing error: ${err.message}`);
+  }
+
+  return {
+    bankName: 'RAKBANK',
+    statementType: 'Account Statement',
+    transactions,
+    metadata,
+    errors,
+    openingBalance,
+    closingBalance,
+  };
+}
+
+// ─── Credit Card Statement ──────────────────────────────────────
+
+export async function parseRAKBANKCreditCard(file: File, password?: string): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  const metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const pages = await extractTextFromPDF(file, password);
+    const fullText = pages.join('\n');
+
+    const cardMatch = fullText.match(/Card (?:Number|No\.?)[:\s]*([\dX*]{4}[\dX*\s-]{8,}\d{4})/i);
+    if (cardMatch) {
+      metadata['cardNumber'] = cardMatch[1].replace(/\s+/g, ' ').trim();
+      metadata['cardLastFour'] = lastFourDigits(cardMatch[1]);
+    }
+
+    const period = findStatementPeriod(fullText);
+    if (period) metadata['period'] = period;
+
+    transactions = parseCardLines(pages, { cleanDescription: cleanRAKBANKDescription });
+  } catch (err: any) {
+    errors.push(`PDF parsing error: ${err.message}`);
+  }
+
+  return {
+    bankName: 'RAKBANK',
+    statementType: 'Credit Card Statement',
+    transactions,
+    metadata,
+    errors,
+  };
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function cleanRAKBANKDescription(desc: string): string {
+  if (!desc) return '';
+  // "PUR/ADNOC 1234/ABU DHABI/AE" → "ADNOC 1234 ABU DHABI"
+  return desc
+    .replace(/\s+/g, ' ')
+    .replace(/^(?:PUR|POS|ECOM)\//i, '')
+    .replace(/\/(?:AE|ARE)\s*$/i, '')
+    .replace(/\//g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { detectParser, getParsers, type StatementSample } from './registry';
+
+// Narrations name other banks and their IBANs; only the statement's own
+// header may decide which bank's layout is used
+
+const pdf = (lines: string[]): StatementSample => ({
+  fileName: 'statement.pdf',
+  format: 'pdf',
+  text: lines.join('\n'),
+  rows: [],
+});
+
+const detect = (sample: StatementSample) => detectParser(sample, getParsers()).parser?.id;
+
+const ENBD_HEADER = [
+  'Emirates NBD Bank PJSC',
+  'Account Statement',
+  'Account Number 1012345678901',
+  'IBAN AE07 0260 0010 1234 5678 901',
+  'Statement Period 01/01/2026 to 31/01/2026',
+  'Date Description Debit Credit Balance',
+];
+
+describe('detectParser with other banks in the narrations', () => {
+  it('keeps an ENBD statement that pays a RAKBANK card', () => {
+    expect(detect(pdf([
+      ...ENBD_HEADER,
+      '02/01/2026 CARREFOUR MOE DUBAI 120.00 5,880.00',
+      '05/01/2026 RAKBANK CREDIT CARD PAYMENT 1,500.00 4,380.00',
+    ]))).toBe('enbd-account-pdf');
+  });
+
+  it('keeps an ENBD statement with a transfer to an HSBC IBAN', () => {
+    expect(detect(pdf([
+      ...ENBD_HEADER,
+      '03/01/2026 TRANSFER TO AE12 0200 0000 1234 5678 901 2,000.00 3,880.00',
+    ]))).toBe('enbd-account-pdf');
+  });
+
+  it.each([
+    ['CBD', 'TRANSFER TO AE45 0230 0000 1234 5678 901'],
+    ['FAB', 'TRANSFER TO AE33 0350 0000 1234 5678 901 FAB'],
+    ['DIB', 'TRANSFER TO AE21 0240 0000 1234 5678 901 DUBAI ISLAMIC BANK'],
+    ['Emirates Islamic', 'TRANSFER TO AE60 0340 0000 1234 5678 901 EMIRATES ISLAMIC'],
+    ['HSBC', 'HSBC BANK MIDDLE EAST CARD PAYMENT'],
+  ])('keeps an ENBD statement that names %s in a narration', (_, narration) => {
+    expect(detect(pdf([...ENBD_HEADER, `04/01/2026 ${narration} 750.00 3,130.00`]))).toBe('enbd-account-pdf');
+  });
+});
+
+describe('detectParser with the bank in the header', () => {
+  it('detects RAKBANK from its header', () => {
+    expect(detect(pdf([
+      'RAKBANK',
+      'Account Statement',
+      'IBAN AE40 0400 0000 1234 5678 901',
+      'Date Description Cheque No Debit Credit Balance',
+      '02/01/2026 EMIRATES NBD TRANSFER 120.00 5,880.00',
+    ]))).toBe('rakbank-account-pdf');
+  });
+
+  it('detects HSBC from the IBAN bank code in its header', () => {
+    expect(detect(pdf([
+      'Statement of Account',
+      'IBAN AE12 0200 0000 1234 5678 901',
+      'Date Payment type and details Paid out Paid in Balance',
+      '02 Jan 26 VIS CARREFOUR 120.00 5,880.00',
+    ]))).toBe('hsbc-account-pdf');
+  });
+});
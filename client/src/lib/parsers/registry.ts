@@ -0,0 +1,120 @@
+/**
+ * Statement Parser Registry
+ *
+ * Every supported statement is described by a StatementParser.
+ * Detection runs each parser's detector against a sample of the file
+ * and picks the highest confidence above DETECTION_THRESHOLD, so an
+ * unrecognised statement is reported instead of guessed.
+ *
+ * Adding a bank: export a StatementParser[] from its module and list it
+ * in `registry` below.
+ */
+
+import type { ParseResult } from './adcb';
+import { adcbParsers } from './adcb';
+import { cbdParsers } from './cbd';
+import { dibParsers } from './dib';
+import { emiratesIslamicParsers } from './emirates-islamic';
+import { enbdParsers } from './enbd';
+import { fabParsers } from './fab';
+import { hsbcParsers } from './hsbc';
+import { livParsers } from './liv';
+import { mashreqParsers } from './mashreq';
+import { mashreqNeoParsers } from './mashreq-neo';
+import { rakbankParsers } from './rakbank';
+import { wioParsers } from './wio';
+import { zandParsers } from './zand';
+
+export type FileFormat = 'csv' | 'pdf' | 'spreadsheet';
+
+export interface StatementSample {
+  fileName: string;
+  format: FileFormat;
+  text: string;          // CSV: full content · PDF: first page text · spreadsheet: leading rows
+  rows: string[][];      // CSV / spreadsheet: leading rows as trimmed cells
+  sheetName?: string;    // spreadsheet only
+}
+
+export interface ParserInput {
+  file: File;
+  sample: StatementSample;
+  password?: string;
+}
+
+export interface StatementParser {
+  id: string;
+  bank: string;
+  statementType: string;
+  extensions: string[];  // lowercase, without dot
+  mimeTypes: string[];
+  detect(sample: StatementSample): number;  // confidence 0..1
+  parse(input: ParserInput): Promise<ParseResult> | ParseResult;
+}
+
+export interface DetectionCandidate {
+  parser: StatementParser;
+  confidence: number;
+}
+
+export interface DetectionResult {
+  parser: StatementParser | null;
+  candidates: DetectionCandidate[];  // best first, confidence > 0
+}
+
+export const DETECTION_THRESHOLD = 0.5;
+
+const registry: StatementParser[] = [
+  ...adcbParsers,
+  ...cbdParsers,
+  ...dibParsers,
+  ...emiratesIslamicParsers,
+  ...enbdParsers,
+  ...fabParsers,
+  ...hsbcParsers,
+  ...livParsers,
+  ...mashreqParsers,
+  ...mashreqNeoParsers,
+  ...rakbankParsers,
+  ...wioParsers,
+  ...zandParsers,
+];
+
+export function getParsers(): StatementParser[] {
+  return registry;
+}
+
+export function getParsersForFile(file: File): StatementParser[] {
+  const extension = file.name.toLowerCase().split('.').pop() ?? '';
+  return registry.filter(p =>
+    p.extensions.includes(extension) || (file.type !== '' && p.mimeTypes.includes(file.type))
+  );
+}
+
+export function detectParser(sample: StatementSample, parsers: StatementParser[]): DetectionResult {
+  const candidates: DetectionCandidate[] = [];
+
+  for (const parser of parsers) {
+    let confidence = 0;
+    try {
+      confidence = parser.detect(sample);
+    } catch {
+      // A failing detector simply doesn't match
+    }
+    if (confidence > 0) candidates.push({ parser, confidence: Math.min(confidence, 1) });
+  }
+
+  candidates.sort((a, b) => b.confidence - a.confidence);
+
+  const best = candidates[0];
+  return {
+    parser: best && best.confidence >= DETECTION_THRESHOLD ? best.parser : null,
+    candidates,
+  };
+}
+
+export function describeCandidates(candidates: DetectionCandidate[], limit = 3): string {
+  return candidates
+    .slice(0, limit)
+    .map(c => `${c.parser.bank} ${c.parser.statementType} (${Math.round(c.confidence * 100)}%)`)
+    .join(', ');
+}
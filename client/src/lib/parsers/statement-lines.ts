@@ -0,0 +1,235 @@
+/**
+ * Line-Based PDF Statement Parsing
+ *
+ * Generic parsers for the two layouts most UAE banks print, working on
+ * the text lines produced by extractTextFromPDF:
+ *
+ *   Account:  Date [Value Date] Description  Debit  Credit  Balance
+ *             (continuation lines carry the rest of the description)
+ *   Card:     Date [Posting Date] Description  Amount [CR]
+ *             (optionally followed by a foreign-currency line)
+ *
+ * Account rows usually print a single amount plus the running balance,
+ * so the sign is taken from the balance movement when possible.
+ */
+
+import type { Transaction } from './adcb';
+import {
+  DATE_PATTERN,
+  looksLikeInflow,
+  parseAmountString,
+  parseStatementDate,
+  type DirectionHint,
+} from './common';
+import { parseForeignAmount, type ForeignAmount } from './fx';
+
+const LEADING_DATE = new RegExp(`^\\s*(${DATE_PATTERN.source})\\s+`, 'i');
+const AMOUNT = /(?:^|\s)(-?[\d,]+\.\d{2})(?:\s*(Cr|Dr)\b)?/gi;
+const OPENING_BALANCE = /opening balance|balance brought forward|brought forward|balance b\/f|previous balance/i;
+const CLOSING_BALANCE = /closing balance|balance carried forward|carried forward|balance c\/f/i;
+
+export interface AccountLineOptions {
+  cleanDescription: (desc: string) => string;
+  isFooter?: (line: string) => boolean;  // stops description continuation
+  direction?: DirectionHint;
+}
+
+export interface AccountLineResult {
+  transactions: Transaction[];
+  openingBalance?: number;
+  closingBalance?: number;
+}
+
+interface AmountToken {
+  value: number;
+  index: number;
+  suffix: string;
+}
+
+function readAmounts(text: string): AmountToken[] {
+  const tokens: AmountToken[] = [];
+  AMOUNT.lastIndex = 0;
+  let match;
+  while ((match = AMOUNT.exec(text)) !== null) {
+    tokens.push({
+      value: parseFloat(match[1].replace(/,/g, '')),
+      index: match.index,
+      suffix: (match[2] ?? '').toLowerCase(),
+    });
+  }
+  return tokens;
+}
+
+function signedBalance(token: AmountToken): number {
+  return token.suffix === 'dr' ? -Math.abs(token.value) : token.value;
+}
+
+function stripLeadingDate(text: string): string {
+  const match = text.match(LEADING_DATE);
+  return match ? text.substring(match[0].length) : text;
+}
+
+// Only consulted for amounts the statement prints without any sign
+function isInflow(description: string, direction?: DirectionHint): boolean {
+  const hint = direction?.(description);
+  return hint ? hint === 'inflow' : looksLikeInflow(description);
+}
+
+function isRoughly(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.005;
+}
+
+export function parseAccountLines(pages: string[], options: AccountLineOptions): AccountLineResult {
+  const transactions: Transaction[] = [];
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
+  let previousBalance: number | undefined;
+
+  for (const pageText of pages) {
+    const lines = pageText.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      // Opening/closing balance rows may or may not carry a date
+      if (OPENING_BALANCE.test(line) || CLOSING_BALANCE.test(line)) {
+        const amounts = readAmounts(stripLeadingDate(line));
+        if (amounts.length > 0) {
+          const balance = signedBalance(amounts[amounts.length - 1]);
+          if (OPENING_BALANCE.test(line)) {
+            if (openingBalance === undefined) openingBalance = balance;
+            if (previousBalance === undefined) previousBalance = balance;
+          } else {
+            closingBalance = balance;
+          }
+        }
+        continue;
+      }
+
+      const dateMatch = line.match(LEADING_DATE);
+      if (!dateMatch) continue;
+
+      const dateStr = dateMatch[1];
+      // Drop the value date column when present
+      const rest = stripLeadingDate(line.substring(dateMatch[0].length));
+
+      const amounts = readAmounts(rest);
+      if (amounts.length === 0) continue;
+
+      const description = rest.substring(0, amounts[0].index).trim();
+      if (!description || /^(description|details|narration|particulars)$/i.test(description)) continue;
+
+      // Gather continuation lines (no leading date)
+      let fullDescription = description;
+      let j = i + 1;
+      while (j < lines.length) {
+        const next = lines[j].trim();
+        if (!next || LEADING_DATE.test(lines[j])) break;
+        if (OPENING_BALANCE.test(next) || CLOSING_BALANCE.test(next)) break;
+        if (options.isFooter?.(next) || /^\d+\s*(\/|of)\s*\d+$/i.test(next)) break;
+        if (readAmounts(next).length > 0) break;
+        fullDescription += ' ' + next;
+        j++;
+      }
+
+      // Last amount is the running balance when more than one is printed
+      let amount: number;
+      let balance: number | undefined;
+      if (amounts.length >= 2) {
+        balance = signedBalance(amounts[amounts.length - 1]);
+        const movements = amounts.slice(0, -1).filter(a => a.value !== 0);
+        if (movements.length === 0) continue;
+        if (movements.length >= 2) {
+          // Both Debit and Credit columns printed
+          amount = Math.abs(movements[1].value) - Math.abs(movements[0].value);
+        } else if (movements[0].value < 0) {
+          amount = movements[0].value;
+        } else if (previousBalance !== undefined && isRoughly(previousBalance - movements[0].value, balance)) {
+          amount = -movements[0].value;
+        } else if (previousBalance !== undefined && isRoughly(previousBalance + movements[0].value, balance)) {
+          amount = movements[0].value;
+        } else {
+          amount = isInflow(fullDescription, options.direction) ? movements[0].value : -movements[0].value;
+        }
+      } else if (amounts[0].suffix) {
+        // A lone "Cr"/"Dr" amount is the balance, not a movement
+        previousBalance = signedBalance(amounts[0]);
+        continue;
+      } else {
+        const value = amounts[0].value;
+        amount = value < 0 || !isInflow(fullDescription, options.direction) ? -Math.abs(value) : value;
+      }
+
+      if (balance !== undefined) previousBalance = balance;
+      if (isNaN(amount) || amount === 0) continue;
+
+      transactions.push({
+        date: parseStatementDate(dateStr),
+        payee: options.cleanDescription(fullDescription),
+        rawDescription: fullDescription,
+        memo: '',
+        amount,
+        originalDate: dateStr,
+        ...(balance !== undefined ? { balance } : {}),
+      });
+    }
+  }
+
+  return { transactions, openingBalance, closingBalance };
+}
+
+export interface CardLineOptions {
+  cleanDescription: (desc: string) => string;
+  direction?: DirectionHint;
+}
+
+const CARD_LINE = new RegExp(
+  `^\\s*(${DATE_PATTERN.source})\\s+(?:(?:${DATE_PATTERN.source})\\s+)?(.+?)\\s+(-?[\\d,]+\\.\\d{2})\\s*(CR|Cr|-)?\\s*$`,
+  'i'
+);
+const FX_LINE = /^\(?\s*(?:1\s+[A-Z]{3}\s*=|[A-Z]{3}\s+[\d,]+\.\d{2}\b)/;
+
+export function parseCardLines(pages: string[], options: CardLineOptions): Transaction[] {
+  const transactions: Transaction[] = [];
+
+  for (const pageText of pages) {
+    const lines = pageText.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const match = lines[i].match(CARD_LINE);
+      if (!match) continue;
+
+      const [, dateStr, description, amountStr, creditFlag] = match;
+      if (/transaction date|posting date|previous balance|minimum payment|total/i.test(description)) continue;
+
+      const value = parseAmountString(amountStr);
+      if (isNaN(value) || value === 0) continue;
+
+      // Credits are printed as "CR", a trailing minus or a negative amount;
+      // unmarked amounts are charges unless the description says otherwise
+      const isCredit = !!creditFlag || value < 0 || options.direction?.(description) === 'inflow';
+      const amount = isCredit ? Math.abs(value) : -Math.abs(value);
+
+      // Foreign-currency line: structured when readable, otherwise kept as the memo
+      let memo = '';
+      let fx: ForeignAmount | null = null;
+      const next = lines[i + 1]?.trim() ?? '';
+      if (FX_LINE.test(next)) {
+        fx = parseForeignAmount(next, amount);
+        if (!fx) memo = next;
+      }
+
+      transactions.push({
+        date: parseStatementDate(dateStr),
+        payee: options.cleanDescription(description),
+        rawDescription: description,
+        memo,
+        amount,
+        originalDate: dateStr,
+        ...fx,
+      });
+    }
+  }
+
+  return transactions;
+}
@@ -0,0 +1,174 @@
+/**
+ * Row-Based Export Parsing
+ *
+ * Generic parser for the CSV/XLSX transaction exports offered by online
+ * banking: optional "Key, Value" metadata rows, a header row, then one
+ * transaction per row with either Debit/Credit columns or a single
+ * Amount column (signed, or paired with a Dr/Cr indicator column).
+ */
+
+import type { Transaction } from './adcb';
+import {
+  findColumn,
+  findHeaderRow,
+  lastFourDigits,
+  parseAmountString,
+  parseStatementDate,
+  type DirectionHint,
+} from './common';
+import { foreignAmountFrom } from './fx';
+
+export interface RowLayout {
+  date: string[];
+  description: string[];
+  debit: string[];
+  credit: string[];
+  amount: string[];
+  indicator: string[];  // "Dr"/"Cr" or "Debit"/"Credit" per row
+  balance: string[];
+  currency: string[];       // original currency of card spend abroad
+  foreignAmount: string[];
+}
+
+export const DEFAULT_ROW_LAYOUT: RowLayout = {
+  date: ['transaction date', 'date', 'txn date', 'posting date', 'booking date'],
+  description: ['description', 'narration', 'transaction details', 'details', 'particulars', 'remarks'],
+  debit: ['debit', 'debit amount', 'withdrawal', 'withdrawals', 'money out'],
+  credit: ['credit', 'credit amount', 'deposit', 'deposits', 'money in'],
+  amount: ['amount', 'amount (aed)', 'amount in aed', 'transaction amount', 'local amount'],
+  indicator: ['dr/cr', 'cr/dr', 'debit/credit', 'type'],
+  balance: ['balance', 'running balance', 'balance (aed)', 'available balance', 'ledger balance'],
+  currency: ['original currency', 'transaction currency', 'currency'],
+  foreignAmount: ['original amount', 'foreign amount', 'amount in original currency'],
+};
+
+export interface RowExportOptions {
+  cleanDescription: (desc: string) => string;
+  layout?: Partial<RowLayout>;
+  direction?: DirectionHint;
+}
+
+export interface RowExportResult {
+  transactions: Transaction[];
+  metadata: Record<string, string>;
+  headerIndex: number;  // -1 when no header row was found
+}
+
+function layoutOf(options: { layout?: Partial<RowLayout> }): RowLayout {
+  return { ...DEFAULT_ROW_LAYOUT, ...options.layout };
+}
+
+/**
+ * Header row with a date and description column plus either Debit and
+ * Credit columns or an Amount column, or -1.
+ */
+export function findExportHeader(rows: string[][], layout: Partial<RowLayout> = {}): number {
+  const l = layoutOf({ layout });
+  const withDebitCredit = findHeaderRow(rows, [l.date, l.description, l.debit, l.credit]);
+  if (withDebitCredit !== -1) return withDebitCredit;
+  return findHeaderRow(rows, [l.date, l.description, l.amount]);
+}
+
+/**
+ * Reads "Key, Value" rows above the header into the standard metadata keys.
+ */
+export function readPreambleMetadata(rows: string[][], headerIndex: number): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  let fromDate = '';
+  let toDate = '';
+
+  for (const row of rows.slice(0, Math.max(headerIndex, 0))) {
+    const key = (row[0] ?? '').replace(/:$/, '').trim().toLowerCase();
+    const val = (row.slice(1).find(c => c.trim() !== '') ?? '').trim();
+    if (!val) continue;
+
+    if (['account number', 'account no', 'account no.'].includes(key)) metadata['accountNumber'] = val;
+    if (key === 'iban') metadata['iban'] = val.replace(/\s/g, '');
+    if (['account name', 'account holder', 'account holder name', 'customer name'].includes(key)) {
+      metadata['accountHolder'] = val;
+    }
+    if (['currency', 'account currency'].includes(key)) metadata['currency'] = val;
+    if (['card number', 'card no', 'card no.'].includes(key)) {
+      metadata['cardNumber'] = val;
+      metadata['cardLastFour'] = lastFourDigits(val);
+    }
+    if (['statement period', 'period'].includes(key)) metadata['period'] = val;
+    if (['from date', 'from', 'start date'].includes(key)) fromDate = val;
+    if (['to date', 'to', 'end date'].includes(key)) toDate = val;
+  }
+
+  if (!metadata['period'] && fromDate && toDate) metadata['period'] = `${fromDate} to ${toDate}`;
+  return metadata;
+}
+
+export function parseExportRows(rows: string[][], options: RowExportOptions): RowExportResult {
+  const transactions: Transaction[] = [];
+  const headerIndex = findExportHeader(rows, options.layout);
+  if (headerIndex === -1) return { transactions, metadata: {}, headerIndex };
+
+  const metadata = readPreambleMetadata(rows, headerIndex);
+  const l = layoutOf(options);
+  const headers = rows[headerIndex].map(h => h.toLowerCase());
+  const dateCol = findColumn(headers, l.date);
+  const descCol = findColumn(headers, l.description);
+  const debitCol = findColumn(headers, l.debit);
+  const creditCol = findColumn(headers, l.credit);
+  const amountCol = findColumn(headers, l.amount);
+  const indicatorCol = findColumn(headers, l.indicator);
+  const balanceCol = findColumn(headers, l.balance);
+  const currencyCol = findColumn(headers, l.currency);
+  const foreignAmountCol = findColumn(headers, l.foreignAmount);
+
+  // A single negative amount shows the column carries its own sign
+  const signedAmounts = amountCol !== -1
+    && rows.slice(headerIndex + 1).some(row => parseAmountString(row[amountCol] ?? '') < 0);
+
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    const row = rows[i];
+    const dateStr = row[dateCol] ?? '';
+    // Skip totals, blank and repeated header rows
+    const date = parseStatementDate(dateStr);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) continue;
+
+    const description = row[descCol] ?? '';
+    if (!description) continue;
+
+    let amount: number;
+    if (debitCol !== -1 && creditCol !== -1) {
+      const debit = Math.abs(parseAmountString(row[debitCol] ?? '')) || 0;
+      const credit = Math.abs(parseAmountString(row[creditCol] ?? '')) || 0;
+      amount = credit - debit;
+    } else {
+      amount = parseAmountString(row[amountCol] ?? '');
+      const indicator = indicatorCol !== -1 ? (row[indicatorCol] ?? '').trim().toLowerCase() : '';
+      if (/^(c|cr|credit)$/.test(indicator)) amount = Math.abs(amount);
+      else if (/^(d|dr|debit)$/.test(indicator)) amount = -Math.abs(amount);
+      else if (!signedAmounts) {
+        // Neither signed nor marked: let the description decide
+        const hint = options.direction?.(description);
+        if (hint === 'inflow') amount = Math.abs(amount);
+        if (hint === 'outflow') amount = -Math.abs(amount);
+      }
+    }
+
+    if (isNaN(amount) || amount === 0) continue;
+
+    const balance = balanceCol !== -1 ? parseAmountString(row[balanceCol] ?? '') : NaN;
+    const fx = currencyCol !== -1 && foreignAmountCol !== -1
+      ? foreignAmountFrom(parseAmountString(row[foreignAmountCol] ?? ''), row[currencyCol] ?? '', amount)
+      : null;
+
+    transactions.push({
+      date,
+      payee: options.cleanDescription(description),
+      rawDescription: description,
+      memo: '',
+      amount,
+      originalDate: dateStr,
+      ...(isNaN(balance) ? {} : { balance }),
+      ...fx,
+    });
+  }
+
+  return { transactions, metadata, headerIndex };
+}
@@ -0,0 +1,157 @@
+/**
+ * Wio Statement Parsers
+ *
+ * Parses statements generated from the Wio Personal and Wio Business apps:
+ *   - PDF account statement: Date | Description | Amount (signed) | Balance
+ *   - CSV / XLSX export:     Date | Account | Type | Description | Amount | Balance
+ *       Dates: "YYYY-MM-DD" or "DD/MM/YYYY", Amount: negative = debit
+ *
+ * Money moved between the current account and Saving Spaces appears as
+ * "Transfer to Saving Space 'Holiday'" / "Moved from Holiday Saving Space";
+ * these are labelled as internal transfers to the named Space.
+ */
+
+import type { Transaction, ParseResult } from './adcb';
+import type { StatementParser, StatementSample } from './registry';
+import { extractTextFromPDF } from './pdf';
+import { SPREADSHEET_MIME_TYPES, findStatementPeriod, readRows } from './common';
+import { parseAccountLines } from './statement-lines';
+import { findExportHeader, parseExportRows } from './statement-rows';
+import { applyPotRules, type PotRules } from './pots';
+
+type WioVariant = 'personal' | 'business';
+
+const WIO_POTS: PotRules = {
+  label: 'Wio Saving Space',
+  transfer: [
+    /(?:transfer|moved?|money moved)\s+(?:to|from)\s+(?:saving\s+space|space)\s+(.+)$/i,
+    /(?:transfer|moved?|money moved)\s+(?:to|from)\s+(.+?)\s+saving\s+space\b/i,
+    /\bsaving\s+space\b/i,
+  ],
+  exclude: /\binterest\b/i,
+};
+
+function isWioBranded(text: string): boolean {
+  return /Wio Bank|wio\.io|\bWio (?:Personal|Business)\b/i.test(text);
+}
+
+// Only the bank's own wording counts: "Business Bay" is a common merchant location
+function wioVariant(sample: StatementSample): WioVariant {
+  return /Wio Business/i.test(sample.text) || /business/i.test(sample.fileName)
+    ? 'business'
+    : 'personal';
+}
+
+function wioConfidence(sample: StatementSample, variant: WioVariant): number {
+  const branded = isWioBranded(sample.text);
+  const named = /(^|[^a-z])wio([^a-z]|$)/i.test(sample.fileName);
+  if (!branded && !named) return 0;
+  if (wioVariant(sample) !== variant) return 0;
+
+  if (sample.format === 'pdf') {
+    return branded && /statement/i.test(sample.text) ? 0.9 : 0;
+  }
+  if (findExportHeader(sample.rows) === -1) return 0;
+  // App exports carry no bank name in the file itself
+  return branded || /saving space/i.test(sample.text) ? 0.9 : 0.7;
+}
+
+function wioParsersFor(variant: WioVariant): StatementParser[] {
+  const statementType = variant === 'business' ? 'Business Account Statement' : 'Account Statement';
+  return [
+    {
+      id: `wio-${variant}-pdf`,
+      bank: 'Wio',
+      statementType,
+      extensions: ['pdf'],
+      mimeTypes: ['application/pdf'],
+      detect: sample => sample.format === 'pdf' ? wioConfidence(sample, variant) : 0,
+      parse: ({ file, password }) => parseWioPDF(file, statementType, password),
+    },
+    {
+      id: `wio-${variant}-export`,
+      bank: 'Wio',
+      statementType,
+      extensions: ['csv', 'xlsx', 'xls'],
+      mimeTypes: ['text/csv', ...SPREADSHEET_MIME_TYPES],
+      detect: sample => sample.format !== 'pdf' ? wioConfidence(sample, variant) : 0,
+      parse: ({ file }) => parseWioExport(file, statementType),
+    },
+  ];
+}
+
+export const wioParsers: StatementParser[] = [
+  ...wioParsersFor('personal'),
+  ...wioParsersFor('business'),
+];
+
+// ─── PDF Statement ──────────────────────────────────────────────
+
+export async function parseWioPDF(file: File, statementType: string, password?: string): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
+  const metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const pages = await extractTextFromPDF(file, password);
+    const fullText = pages.join('\n');
+
+    const ibanMatch = fullText.match(/IBAN[:\s]*(AE\d{2}(?:\s?\d){19})/i);
+    if (ibanMatch) metadata['iban'] = ibanMatch[1].replace(/\s/g, '');
+
+    const accountMatch = fullText.match(/Account (?:Number|No\.?)[:\s]*(\d{6,})/i);
+    if (accountMatch) metadata['accountNumber'] = accountMatch[1];
+
+    const period = findStatementPeriod(fullText);
+    if (period) metadata['period'] = period;
+
+    const result = parseAccountLines(pages, {
+      cleanDescription: cleanWioDescription,
+      isFooter: line => /Wio Bank|wio\.io|Page \d+/i.test(line),
+    });
+    transactions = applyPotRules(result.transactions, WIO_POTS);
+    openingBalance = result.openingBalance;
+    closingBalance = result.closingBalance;
+  } catch (err: any) {
+    errors.push(`PDF parsing error: ${err.message}`);
+  }
+
+  return { bankName: 'Wio', statementType, transactions, metadata, errors, openingBalance, closingBalance };
+}
+
+// ─── App Export (CSV / XLSX) ────────────────────────────────────
+
+export async function parseWioExport(file: File, statementType: string): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  let metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const rows = await readRows(file);
+    const result = parseExportRows(rows, { cleanDescription: cleanWioDescription });
+
+    if (result.headerIndex === -1) {
+      errors.push('Could not find header row in Wio export.');
+    }
+    transactions = applyPotRules(result.transactions, WIO_POTS);
+    metadata = result.metadata;
+  } catch (err: any) {
+    errors.push(`File parsing error: ${err.message}`);
+  }
+
+  return { bankName: 'Wio', statementType, transactions, metadata, errors };
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function cleanWioDescription(desc: string): string {
+  if (!desc) return '';
+  // "Card purchase - CARREFOUR MOE, Dubai, AE" → "CARREFOUR MOE, Dubai"
+  return desc
+    .replace(/\s+/g, ' ')
+    .replace(/^Card (?:purchase|payment)\s*[-:]\s*/i, '')
+    .replace(/,\s*AE\s*$/, '')
+    .trim();
+}
@@ -0,0 +1,138 @@
+/**
+ * Zand Statement Parsers
+ *
+ * Parses statements from Zand, the UAE's digital-only bank:
+ *   - PDF account statement: Date | Description | Money Out | Money In | Balance
+ *   - CSV / XLSX export:     Date | Description | Money Out | Money In | Balance
+ *       Dates: "DD/MM/YYYY" or "YYYY-MM-DD"
+ *
+ * Moves between the current account and the linked Zand savings account
+ * ("Transfer to Savings Account", "Zand Saver top up") are labelled as
+ * internal transfers.
+ */
+
+import type { Transaction, ParseResult } from './adcb';
+import type { StatementParser, StatementSample } from './registry';
+import { extractTextFromPDF } from './pdf';
+import { SPREADSHEET_MIME_TYPES, findStatementPeriod, readRows } from './common';
+import { parseAccountLines } from './statement-lines';
+import { findExportHeader, parseExportRows } from './statement-rows';
+import { applyPotRules, type PotRules } from './pots';
+
+const ZAND_POTS: PotRules = {
+  label: 'Zand Savings',
+  transfer: [
+    /transfer\s+(?:to|from)\s+(?:zand\s+)?sav(?:er|ings)(?:\s+account)?\s*[:-]?\s*(.*)$/i,
+    /\bzand\s+saver\b/i,
+  ],
+  exclude: /\b(?:interest|profit)\b/i,
+};
+
+function isZandBranded(text: string): boolean {
+  return /Zand Bank|zand\.ae|\bZand\b/i.test(text);
+}
+
+function zandConfidence(sample: StatementSample): number {
+  const branded = isZandBranded(sample.text);
+  const named = /zand/i.test(sample.fileName);
+
+  if (sample.format === 'pdf') {
+    return branded && /statement/i.test(sample.text) ? 0.9 : 0;
+  }
+  if (!branded && !named) return 0;
+  if (findExportHeader(sample.rows) === -1) return 0;
+  return branded ? 0.9 : 0.7;
+}
+
+export const zandParsers: StatementParser[] = [
+  {
+    id: 'zand-account-pdf',
+    bank: 'Zand',
+    statementType: 'Account Statement',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+    detect: zandConfidence,
+    parse: ({ file, password }) => parseZandPDF(file, password),
+  },
+  {
+    id: 'zand-account-export',
+    bank: 'Zand',
+    statementType: 'Account Statement',
+    extensions: ['csv', 'xlsx', 'xls'],
+    mimeTypes: ['text/csv', ...SPREADSHEET_MIME_TYPES],
+    detect: zandConfidence,
+    parse: ({ file }) => parseZandExport(file),
+  },
+];
+
+// ─── PDF Statement ──────────────────────────────────────────────
+
+export async function parseZandPDF(file: File, password?: string): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
+  const metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const pages = await extractTextFromPDF(file, password);
+    const fullText = pages.join('\n');
+
+    const accountMatch = fullText.match(/Account (?:Number|No\.?)[:\s]*(\d{6,})/i);
+    if (accountMatch) metadata['accountNumber'] = accountMatch[1];
+
+    const ibanMatch = fullText.match(/IBAN[:\s]*(AE\d{2}(?:\s?\d){19})/i);
+    if (ibanMatch) metadata['iban'] = ibanMatch[1].replace(/\s/g, '');
+
+    const period = findStatementPeriod(fullText);
+    if (period) metadata['period'] = period;
+
+    const result = parseAccountLines(pages, {
+      cleanDescription: cleanZandDescription,
+      isFooter: line => /Zand Bank|zand\.ae|Page \d+/i.test(line),
+    });
+    transactions = applyPotRules(result.transactions, ZAND_POTS);
+    openingBalance = result.openingBalance;
+    closingBalance = result.closingBalance;
+  } catch (err: any) {
+    errors.push(`PDF parsing error: ${err.message}`);
+  }
+
+  return { bankName: 'Zand', statementType: 'Account Statement', transactions, metadata, errors, openingBalance, closingBalance };
+}
+
+// ─── App Export (CSV / XLSX) ────────────────────────────────────
+
+export async function parseZandExport(file: File): Promise<ParseResult> {
+  let transactions: Transaction[] = [];
+  let metadata: Record<string, string> = {};
+  const errors: string[] = [];
+
+  try {
+    const rows = await readRows(file);
+    const result = parseExportRows(rows, { cleanDescription: cleanZandDescription });
+
+    if (result.headerIndex === -1) {
+      errors.push('Could not find header row in Zand export.');
+    }
+    transactions = applyPotRules(result.transactions, ZAND_POTS);
+    metadata = result.metadata;
+  } catch (err: any) {
+    errors.push(`File parsing error: ${err.message}`);
+  }
+
+  return { bankName: 'Zand', statementType: 'Account Statement', transactions, metadata, errors };
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function cleanZandDescription(desc: string): string {
+  if (!desc) return '';
+  // "Debit card payment | NOON.COM | Ref 8123456" → "NOON.COM"
+  return desc
+    .replace(/\s+/g, ' ')
+    .replace(/^(?:Debit card payment|Card payment)\s*[|:-]\s*/i, '')
+    .replace(/\s*[|-]\s*Ref\.?\s*\w+\s*$/i, '')
+    .replace(/\s*\|\s*/g, ' ')
+    .trim();
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { Transaction } from './parsers/adcb';
+import { toQIF } from './qif-export';
+
+const transactions: Transaction[] = [
+  {
+    date: '2026-01-05',
+    payee: 'Carrefour',
+    memo: 'POS 1234',
+    amount: -120.5,
+    originalDate: '05/01/2026',
+    category: 'Groceries',
+  },
+  {
+    date: '2026-01-25',
+    payee: 'Salary',
+    memo: '',
+    amount: 15000,
+    originalDate: '25/01/2026',
+  },
+];
+
+describe('toQIF', () => {
+  it('writes the category in the L field, not the memo', () => {
+    expect(toQIF(transactions, 'Bank')).toBe([
+      '!Type:Bank',
+      'D05/01/2026',
+      'T-120.50',
+      'PCarrefour',
+      'MPOS 1234',
+      'LGroceries',
+      '^',
+      'D25/01/2026',
+      'T15000.00',
+      'PSalary',
+      '^',
+      '',
+    ].join('\n'));
+  });
+
+  it('keeps the L field whatever the memo prefix setting', () => {
+    expect(toQIF(transactions, 'CCard', { categoryInMemo: false })).toContain('\nLGroceries\n');
+    expect(toQIF(transactions, 'CCard', { categoryInMemo: true })).not.toContain('[Groceries]');
+  });
+
+  it('leaves the L field out when categories are off', () => {
+    const qif = toQIF(transactions, 'Bank', { categories: false });
+    expect(qif).not.toContain('LGroceries');
+    expect(qif).toContain('MPOS 1234\n^');
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * QIF Export
+ *
+ * Quicken Interchange Format, accepted by YNAB's file import and most
+ * desktop finance apps. One `!Type:` block per file: Bank for account
+ * statements, CCard for card statements. Dates use DD/MM/YYYY like the
+ * YNAB CSV, amounts are signed, and a suggested category goes in the
+ * QIF category field (L) rather than the memo.
+ */
+
+import type { Transaction } from './parsers/adcb';
+import { exportMemo, type YNABExportOptions } from './ynab-export';
+
+export type QIFAccountType = 'Bank' | 'CCard';
+
+function qifDate(isoDate: string): string {
+  const [yyyy, mm, dd] = isoDate.split('-');
+  return dd ? `${dd}/${mm}/${yyyy}` : isoDate;
+}
+
+// QIF fields are line-based: a newline would start a new field
+function qifText(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+export function toQIF(
+  transactions: Transaction[],
+  accountType: QIFAccountType = 'Bank',
+  options: YNABExportOptions = {}
+): string {
+  const lines = [`!Type:${accountType}`];
+  // The category has its own field, so it isn't repeated in the memo
+  const memoOptions = { ...options, categoryInMemo: false };
+
+  for (const tx of transactions) {
+    lines.push(`D${qifDate(tx.date)}`);
+    lines.push(`T${tx.amount.toFixed(2)}`);
+    lines.push(`P${qifText(tx.payee)}`);
+    const memo = qifText(exportMemo(tx, memoOptions));
+    if (memo) lines.push(`M${memo}`);
+    if ((options.categories ?? true) && tx.category) lines.push(`L${qifText(tx.category)}`);
+    lines.push('^');
+  }
+
+  return lines.join('\n') + '\n';
+}
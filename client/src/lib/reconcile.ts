@@ -0,0 +1,96 @@
+/**
+ * Balance Reconciliation
+ *
+ * Checks a parsed account statement against the balances the bank
+ * printed: opening balance + sum of amounts must equal the closing
+ * balance, and each row's running balance must equal the previous
+ * balance plus that row's amount. A break pinpoints where a row was
+ * dropped, duplicated or given the wrong sign.
+ *
+ * Card statements print no running balance and are not checked.
+ */
+
+import type { ParseResult } from './parsers/adcb';
+
+export interface BalanceBreak {
+  index: number;            // position in result.transactions
+  expected: number;         // previous balance + amount
+  printed: number;          // running balance on the statement
+  difference: number;       // printed - expected
+  signFlipped: boolean;     // the row reconciles with the opposite sign
+}
+
+export interface Reconciliation {
+  status: 'ok' | 'mismatch' | 'unavailable';
+  openingBalance?: number;
+  closingBalance?: number;
+  computedClosing?: number;
+  difference?: number;      // closingBalance - computedClosing
+  breaks: BalanceBreak[];
+}
+
+const TOLERANCE = 0.005;
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+export function reconcile(result: ParseResult): Reconciliation {
+  const txs = result.transactions;
+  const breaks: BalanceBreak[] = [];
+
+  if (/card/i.test(result.statementType) || txs.length === 0) {
+    return { status: 'unavailable', breaks };
+  }
+
+  // Walk oldest first; some exports list the newest row at the top
+  const order = txs.map((_, i) => i);
+  if (txs[0].date > txs[txs.length - 1].date) order.reverse();
+
+  const first = txs[order[0]];
+  const last = txs[order[order.length - 1]];
+  const openingBalance = result.openingBalance
+    ?? (first.balance !== undefined ? round2(first.balance - first.amount) : undefined);
+  const closingBalance = result.closingBalance ?? last.balance;
+
+  if (openingBalance === undefined || closingBalance === undefined) {
+    return { status: 'unavailable', openingBalance, closingBalance, breaks };
+  }
+
+  let previous: number | undefined = openingBalance;
+  for (const index of order) {
+    const tx = txs[index];
+    if (tx.balance === undefined) {
+      // Rows without a printed balance (e.g. merged round-ups) can't be
+      // checked, and neither can the row after them
+      previous = undefined;
+      continue;
+    }
+    if (previous !== undefined) {
+      const expected = round2(previous + tx.amount);
+      if (Math.abs(expected - tx.balance) > TOLERANCE) {
+        breaks.push({
+          index,
+          expected,
+          printed: tx.balance,
+          difference: round2(tx.balance - expected),
+          signFlipped: Math.abs(previous - tx.amount - tx.balance) <= TOLERANCE,
+        });
+      }
+    }
+    // Resynchronise so a single bad row is flagged once, not for the rest of the statement
+    previous = tx.balance;
+  }
+
+  const computedClosing = round2(txs.reduce((sum, tx) => sum + tx.amount, openingBalance));
+  const difference = round2(closingBalance - computedClosing);
+
+  return {
+    status: breaks.length === 0 && Math.abs(difference) <= TOLERANCE ? 'ok' : 'mismatch',
+    openingBalance,
+    closingBalance,
+    computedClosing,
+    difference,
+    breaks,
+  };
+}
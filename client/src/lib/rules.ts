@@ -0,0 +1,184 @@
+/**
+ * Payee Rules
+ *
+ * User-defined rewrite rules applied after parsing. Each rule matches
+ * on the raw statement description (contains / starts with / regex),
+ * optionally narrowed by amount range and bank, and runs its actions:
+ * set payee, set or append memo, set category, or skip the transaction.
+ *
+ * Rules are evaluated in order and every matching rule applies, so a
+ * later rule can refine an earlier one; "skip" ends evaluation.
+ * They are stored in this browser and can be shared as a JSON file.
+ */
+
+import type { Transaction } from './parsers/adcb';
+
+const RULES_KEY = 'uae2ynab:payee-rules';
+const RULES_FILE_VERSION = 1;
+
+export type MatchType = 'contains' | 'starts-with' | 'regex';
+
+export type RuleAction =
+  | { type: 'set-payee'; value: string }
+  | { type: 'set-memo'; value: string }
+  | { type: 'append-memo'; value: string }
+  | { type: 'set-category'; value: string }
+  | { type: 'skip' };
+
+export type RuleActionType = RuleAction['type'];
+
+export interface PayeeRule {
+  id: string;
+  enabled: boolean;
+  matchType: MatchType;
+  pattern: string;
+  minAmount?: number;       // compared with the absolute amount
+  maxAmount?: number;
+  bank?: string;            // ParseResult.bankName, e.g. "Emirates NBD"
+  actions: RuleAction[];
+}
+
+export interface RulesOutcome {
+  transactions: Transaction[];   // same length and order as the input
+  skipped: Set<number>;
+}
+
+const ACTION_TYPES: RuleActionType[] = ['set-payee', 'set-memo', 'append-memo', 'set-category', 'skip'];
+const MATCH_TYPES: MatchType[] = ['contains', 'starts-with', 'regex'];
+
+// ─── Matching ───────────────────────────────────────────────────
+
+/** Compiled regex for a rule, or null when the pattern is invalid */
+export function ruleRegex(rule: Pick<PayeeRule, 'matchType' | 'pattern'>): RegExp | null {
+  if (rule.matchType !== 'regex') return null;
+  try {
+    return new RegExp(rule.pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+export function ruleMatches(rule: PayeeRule, tx: Transaction, bankName: string): boolean {
+  if (!rule.enabled || !rule.pattern) return false;
+  if (rule.bank && rule.bank !== bankName) return false;
+
+  const amount = Math.abs(tx.amount);
+  if (rule.minAmount !== undefined && amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && amount > rule.maxAmount) return false;
+
+  const description = tx.rawDescription ?? tx.payee;
+  switch (rule.matchType) {
+    case 'contains':
+      return description.toLowerCase().includes(rule.pattern.toLowerCase());
+    case 'starts-with':
+      return description.trim().toLowerCase().startsWith(rule.pattern.toLowerCase());
+    case 'regex':
+      return ruleRegex(rule)?.test(description) ?? false;
+  }
+}
+
+export function applyRules(transactions: Transaction[], bankName: string, rules: PayeeRule[]): RulesOutcome {
+  const skipped = new Set<number>();
+  if (rules.length === 0) return { transactions, skipped };
+
+  const result = transactions.map((original, index) => {
+    let tx = original;
+    for (const rule of rules) {
+      if (!ruleMatches(rule, original, bankName)) continue;
+      for (const action of rule.actions) {
+        switch (action.type) {
+          case 'set-payee':
+            tx = { ...tx, payee: action.value };
+            break;
+          case 'set-memo':
+            tx = { ...tx, memo: action.value };
+            break;
+          case 'append-memo':
+            tx = { ...tx, memo: tx.memo ? `${tx.memo} ${action.value}` : action.value };
+            break;
+          case 'set-category':
+            tx = { ...tx, category: action.value };
+            break;
+          case 'skip':
+            skipped.add(index);
+            break;
+        }
+      }
+      if (skipped.has(index)) break;
+    }
+    return tx;
+  });
+
+  return { transactions: result, skipped };
+}
+
+// ─── Storage & Sharing ──────────────────────────────────────────
+
+export function newRule(): PayeeRule {
+  return {
+    id: Math.random().toString(36).slice(2, 10),
+    enabled: true,
+    matchType: 'contains',
+    pattern: '',
+    actions: [{ type: 'set-payee', value: '' }],
+  };
+}
+
+function isAction(value: any): value is RuleAction {
+  if (!value || !ACTION_TYPES.includes(value.type)) return false;
+  return value.type === 'skip' || typeof value.value === 'string';
+}
+
+function toRule(value: any): PayeeRule | null {
+  if (!value || typeof value.pattern !== 'string' || !MATCH_TYPES.includes(value.matchType)) return null;
+  if (!Array.isArray(value.actions) || !value.actions.every(isAction)) return null;
+  const optionalNumber = (n: unknown) => (typeof n === 'number' && isFinite(n) ? n : undefined);
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : newRule().id,
+    enabled: value.enabled !== false,
+    matchType: value.matchType,
+    pattern: value.pattern,
+    minAmount: optionalNumber(value.minAmount),
+    maxAmount: optionalNumber(value.maxAmount),
+    bank: typeof value.bank === 'string' && value.bank ? value.bank : undefined,
+    actions: value.actions.map((a: RuleAction) => (a.type === 'skip' ? { type: 'skip' } : { type: a.type, value: a.value })),
+  };
+}
+
+export function loadRules(): PayeeRule[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RULES_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.flatMap(r => toRule(r) ?? []) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveRules(rules: PayeeRule[]): void {
+  try {
+    localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+  } catch {
+    // Storage unavailable: rules last for this session only
+  }
+}
+
+export function rulesToJSON(rules: PayeeRule[]): string {
+  return JSON.stringify({ version: RULES_FILE_VERSION, rules }, null, 2);
+}
+
+/** Parses a shared rules file; throws with a readable message when it isn't one */
+export function rulesFromJSON(json: string): PayeeRule[] {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Not a valid JSON file.');
+  }
+  const list = Array.isArray(data) ? data : data?.rules;
+  if (!Array.isArray(list)) throw new Error('No "rules" list found in the file.');
+
+  const rules = list.map(toRule);
+  const invalid = rules.findIndex(r => r === null);
+  if (invalid !== -1) throw new Error(`Rule ${invalid + 1} is not a valid rule.`);
+  return rules as PayeeRule[];
+}
@@ -0,0 +1,78 @@
+/**
+ * Transaction Table View
+ *
+ * Sorting, search and filters for the transaction preview. The view
+ * never reorders or drops the underlying transactions: it yields the
+ * indices to show, so edits, balance breaks and duplicate choices keep
+ * referring to the parsed row.
+ */
+
+import type { Transaction } from './parsers/adcb';
+
+export type SortKey = 'date' | 'payee' | 'amount';
+export type DirectionFilter = 'all' | 'inflow' | 'outflow';
+
+export interface TableView {
+  sortKey: SortKey | null;          // null keeps statement order
+  sortDescending: boolean;
+  search: string;                   // payee and memo, case-insensitive
+  direction: DirectionFilter;
+  fromDate: string;                 // YYYY-MM-DD, inclusive; '' for open
+  toDate: string;
+  minAmount?: number;               // absolute amount, inclusive
+  maxAmount?: number;
+}
+
+export const DEFAULT_TABLE_VIEW: TableView = {
+  sortKey: null,
+  sortDescending: false,
+  search: '',
+  direction: 'all',
+  fromDate: '',
+  toDate: '',
+};
+
+export function isFiltered(view: TableView): boolean {
+  return (
+    view.search.trim() !== '' ||
+    view.direction !== 'all' ||
+    view.fromDate !== '' ||
+    view.toDate !== '' ||
+    view.minAmount !== undefined ||
+    view.maxAmount !== undefined
+  );
+}
+
+export function matchesView(tx: Transaction, view: TableView): boolean {
+  if (view.direction === 'inflow' && tx.amount <= 0) return false;
+  if (view.direction === 'outflow' && tx.amount >= 0) return false;
+  if (view.fromDate && tx.date < view.fromDate) return false;
+  if (view.toDate && tx.date > view.toDate) return false;
+
+  const amount = Math.abs(tx.amount);
+  if (view.minAmount !== undefined && amount < view.minAmount) return false;
+  if (view.maxAmount !== undefined && amount > view.maxAmount) return false;
+
+  const search = view.search.trim().toLowerCase();
+  if (search && !`${tx.payee} ${tx.memo}`.toLowerCase().includes(search)) return false;
+  return true;
+}
+
+/** Indices of the transactions to show, filtered and in display order */
+export function visibleIndices(transactions: Transaction[], view: TableView): number[] {
+  const indices = transactions.flatMap((tx, i) => (matchesView(tx, view) ? [i] : []));
+  if (!view.sortKey) return indices;
+
+  const key = view.sortKey;
+  const sign = view.sortDescending ? -1 : 1;
+  return indices.sort((a, b) => {
+    const x = transactions[a];
+    const y = transactions[b];
+    const order = key === 'amount'
+      ? x.amount - y.amount
+      : key === 'payee'
+        ? x.payee.localeCompare(y.payee)
+        : x.date.localeCompare(y.date);
+    return sign * order || a - b;
+  });
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { ParseResult, Transaction } from './parsers/adcb';
+import { findTransfers, type TransferSource } from './transfers';
+
+const tx = (date: string, payee: string, amount: number): Transaction => ({
+  date,
+  payee,
+  memo: '',
+  amount,
+  originalDate: date,
+});
+
+const source = (id: string, accountKey: string, transactions: Transaction[]): TransferSource => {
+  const result: ParseResult = {
+    bankName: 'Bank',
+    statementType: 'Account Statement',
+    transactions,
+    metadata: {},
+    errors: [],
+    accountKey,
+  };
+  return { id, result };
+};
+
+describe('findTransfers', () => {
+  it('links a pair with transfer wording by default', () => {
+    const pairs = findTransfers([
+      source('current', 'iban:A', [tx('2026-01-10', 'CC PAYMENT TO CARD 7337', -1500)]),
+      source('card', 'enbd:card:7337', [tx('2026-01-11', 'PAYMENT RECEIVED THANK YOU', 1500)]),
+    ]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({
+      from: { sourceId: 'current', index: 0 },
+      to: { sourceId: 'card', index: 0 },
+      hinted: true,
+    });
+  });
+
+  it('lists an equal amount without transfer wording, unlinked', () => {
+    const pairs = findTransfers([
+      source('current', 'iban:A', [tx('2026-01-10', 'IKEA DUBAI FESTIVAL CITY', -500)]),
+      source('card', 'enbd:card:7337', [tx('2026-01-12', 'NOON.COM REFUND', 500)]),
+    ]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].hinted).toBe(false);
+  });
+
+  it('prefers the pair with transfer wording over a closer coincidence', () => {
+    const pairs = findTransfers([
+      source('current', 'iban:A', [tx('2026-01-10', 'OWN ACCOUNT TRANSFER', -500)]),
+      source('savings', 'iban:B', [
+        tx('2026-01-10', 'CASHBACK', 500),
+        tx('2026-01-11', 'TRANSFER FROM A/C 1001', 500),
+      ]),
+    ]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({ to: { sourceId: 'savings', index: 1 }, hinted: true });
+  });
+
+  it('does not pair statements of the same account', () => {
+    expect(findTransfers([
+      source('jan', 'iban:A', [tx('2026-01-31', 'OWN ACCOUNT TRANSFER', -500)]),
+      source('feb', 'iban:A', [tx('2026-02-01', 'OWN ACCOUNT TRANSFER', 500)]),
+    ])).toEqual([]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Inter-Account Transfers
+ *
+ * Money moved between two of the user's own accounts shows up twice:
+ * an "OWN ACCOUNT TRANSFER" debit on one statement and a credit on the
+ * other, or a card payment debited from the current account and
+ * credited to the card. YNAB links the two sides when both use the
+ * payee "Transfer : <Account Name>", naming the account on the other
+ * side, instead of creating two uncategorised transactions.
+ *
+ * The matcher pairs an outflow in one statement with the equal inflow
+ * in another within a few days. Only pairs with transfer wording on at
+ * least one side are linked by default: a 500 AED purchase and an
+ * unrelated 500 AED refund are listed, but keep their payees unless the
+ * user links them. Account names must match the names of
+ * the accounts in YNAB, so they are editable and remembered per account.
+ */
+
+import type { ParseResult, Transaction } from './parsers/adcb';
+
+const ACCOUNT_NAMES_KEY = 'uae2ynab:account-names';
+
+// Wording that makes an equal-amount pair more likely to be a transfer
+const TRANSFER_HINT =
+  /\b(TRANSFER|TRF|TFR|OWN ACCOUNT|CC NO|CARD PAYMENT|PAYMENT RECEIVED|THANK YOU|IPP|FROM A\/C|TO A\/C|MOVED)\b/i;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TransferSource {
+  id: string;
+  result: ParseResult;
+  isExcluded?: (index: number) => boolean;   // e.g. dropped duplicates
+}
+
+export interface TransferSide {
+  sourceId: string;
+  index: number;
+}
+
+export interface TransferPair {
+  key: string;
+  from: TransferSide;     // the outflow
+  to: TransferSide;       // the inflow
+  days: number;
+  hinted: boolean;        // transfer wording on either side; linked by default
+}
+
+export interface TransferOptions {
+  maxDays: number;
+}
+
+export const DEFAULT_TRANSFER_OPTIONS: TransferOptions = { maxDays: 4 };
+
+// ─── Account Names ──────────────────────────────────────────────
+
+export function defaultAccountName(result: ParseResult): string {
+  const m = result.metadata;
+  const isCard = /card/i.test(result.statementType);
+  const number = isCard
+    ? m['cardLastFour'] || (m['cardNumber'] ?? '').replace(/\D/g, '').slice(-4)
+    : (m['iban'] || m['accountNumber'] || '').replace(/\D/g, '').slice(-4);
+  return [result.bankName, isCard ? 'Card' : 'Account', number].filter(Boolean).join(' ');
+}
+
+export function loadAccountNames(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(ACCOUNT_NAMES_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function saveAccountNames(names: Record<string, string>): void {
+  try {
+    localStorage.setItem(ACCOUNT_NAMES_KEY, JSON.stringify(names));
+  } catch {
+    // Storage unavailable: names last for this session only
+  }
+}
+
+// ─── Matching ───────────────────────────────────────────────────
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / DAY_MS;
+}
+
+function cents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+export function findTransfers(
+  sources: TransferSource[],
+  options: TransferOptions = DEFAULT_TRANSFER_OPTIONS
+): TransferPair[] {
+  interface Candidate { from: TransferSide; to: TransferSide; days: number; hints: number }
+  const candidates: Candidate[] = [];
+
+  for (const a of sources) {
+    for (const b of sources) {
+      if (a === b || !a.result.accountKey || a.result.accountKey === b.result.accountKey) continue;
+
+      a.result.transactions.forEach((out, i) => {
+        if (out.amount >= 0 || a.isExcluded?.(i)) return;
+        b.result.transactions.forEach((inflow, j) => {
+          if (cents(inflow.amount) !== -cents(out.amount) || b.isExcluded?.(j)) return;
+          const days = daysBetween(out.date, inflow.date);
+          if (days > options.maxDays) return;
+          const hints = Number(TRANSFER_HINT.test(out.payee)) + Number(TRANSFER_HINT.test(inflow.payee));
+          candidates.push({ from: { sourceId: a.id, index: i }, to: { sourceId: b.id, index: j }, days, hints });
+        });
+      });
+    }
+  }
+
+  // Most transfer-like, closest-dated pairs claim their transactions first
+  candidates.sort((x, y) => y.hints - x.hints || x.days - y.days);
+
+  const used = new Set<string>();
+  const pairs: TransferPair[] = [];
+  for (const c of candidates) {
+    const fromKey = `${c.from.sourceId}:${c.from.index}`;
+    const toKey = `${c.to.sourceId}:${c.to.index}`;
+    if (used.has(fromKey) || used.has(toKey)) continue;
+    used.add(fromKey);
+    used.add(toKey);
+    pairs.push({ key: `${fromKey}>${toKey}`, from: c.from, to: c.to, days: c.days, hinted: c.hints > 0 });
+  }
+  return pairs;
+}
+
+/**
+ * Rewrites a transaction as one side of a YNAB transfer, keeping the original
+ * payee in the memo. Transfers between budget accounts take no category.
+ * The other statement is kept too, so journals can post to its account.
+ */
+export function asTransfer(tx: Transaction, otherAccountName: string, other: ParseResult): Transaction {
+  const { bankName, statementType, metadata, accountKey } = other;
+  return {
+    ...tx,
+    payee: `Transfer : ${otherAccountName}`,
+    memo: [tx.payee, tx.memo].filter(Boolean).join(' · '),
+    category: undefined,
+    transferTo: { bankName, statementType, metadata, accountKey },
+  };
+}
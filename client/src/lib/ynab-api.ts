@@ -0,0 +1,207 @@
+/**
+ * YNAB API Client
+ *
+ * Uploads transactions straight into a YNAB budget with a personal
+ * access token, as an alternative to CSV download + file import.
+ * Requests go from the browser directly to YNAB; the token is only
+ * ever stored in this browser's localStorage, and only if asked to.
+ *
+ * Set VITE_YNAB_API_URL to point at a local mock (see server/ynab-mock.ts).
+ */
+
+import type { Transaction } from './parsers/adcb';
+import { exportMemo, type YNABExportOptions } from './ynab-export';
+import { importIds, toMilliunits } from './import-ids';
+
+export const YNAB_API_URL: string = import.meta.env.VITE_YNAB_API_URL || 'https://api.ynab.com/v1';
+
+const TOKEN_KEY = 'uae2ynab:ynab-token';
+
+// YNAB field limits
+const MAX_PAYEE_LENGTH = 200;
+const MAX_MEMO_LENGTH = 500;
+
+export interface YNABBudget {
+  id: string;
+  name: string;
+}
+
+export interface YNABAccount {
+  id: string;
+  name: string;
+  type: string;
+  closed: boolean;
+  deleted: boolean;
+}
+
+export interface YNABCategory {
+  id: string;
+  name: string;
+  group: string;
+}
+
+export interface YNABSaveTransaction {
+  account_id: string;
+  date: string;
+  amount: number;         // milliunits
+  payee_name: string;
+  memo: string;
+  category_id?: string;
+  cleared: 'cleared' | 'uncleared' | 'reconciled';
+  approved: boolean;
+  import_id: string;
+}
+
+export interface YNABUploadResult {
+  created: number;
+  duplicates: number;     // import_ids YNAB already had
+}
+
+export class YNABApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'YNABApiError';
+    this.status = status;
+  }
+}
+
+// ─── Token Storage ──────────────────────────────────────────────
+
+export function loadToken(): string {
+  try {
+    return localStorage.getItem(TOKEN_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export function saveToken(token: string): void {
+  try {
+    localStorage.setItem(TOKEN_KEY, token);
+  } catch {
+    // Storage unavailable (private mode): the token just isn't remembered
+  }
+}
+
+export function clearToken(): void {
+  try {
+    localStorage.removeItem(TOKEN_KEY);
+  } catch {
+    // ignore
+  }
+}
+
+// ─── Requests ───────────────────────────────────────────────────
+
+async function request<T>(token: string, path: string, init: RequestInit = {}): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${YNAB_API_URL}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        ...init.headers,
+      },
+    });
+  } catch (err: any) {
+    throw new YNABApiError(`Could not reach YNAB: ${err.message}`, 0);
+  }
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const detail = body?.error?.detail ?? response.statusText;
+    const message = response.status === 401
+      ? 'YNAB rejected the access token. Check it under Account Settings → Developer Settings.'
+      : `YNAB API error ${response.status}: ${detail}`;
+    throw new YNABApiError(message, response.status);
+  }
+  return body.data as T;
+}
+
+export async function getBudgets(token: string): Promise<YNABBudget[]> {
+  const data = await request<{ budgets: YNABBudget[] }>(token, '/budgets');
+  return data.budgets.map(b => ({ id: b.id, name: b.name }));
+}
+
+export async function getAccounts(token: string, budgetId: string): Promise<YNABAccount[]> {
+  const data = await request<{ accounts: YNABAccount[] }>(token, `/budgets/${encodeURIComponent(budgetId)}/accounts`);
+  return data.accounts.filter(a => !a.closed && !a.deleted);
+}
+
+export async function getCategories(token: string, budgetId: string): Promise<YNABCategory[]> {
+  interface Group {
+    name: string;
+    hidden: boolean;
+    deleted: boolean;
+    categories: { id: string; name: string; hidden: boolean; deleted: boolean }[];
+  }
+  const data = await request<{ category_groups: Group[] }>(token, `/budgets/${encodeURIComponent(budgetId)}/categories`);
+  return data.category_groups
+    .filter(g => !g.hidden && !g.deleted && g.name !== 'Internal Master Category')
+    .flatMap(g => g.categories
+      .filter(c => !c.hidden && !c.deleted)
+      .map(c => ({ id: c.id, name: c.name, group: g.name })));
+}
+
+/** Category ids by lower-cased name, matching either "Name" or "Group: Name" */
+export function categoryIdsByName(categories: YNABCategory[]): Map<string, string> {
+  const ids = new Map<string, string>();
+  for (const c of categories) {
+    ids.set(`${c.group}: ${c.name}`.toLowerCase(), c.id);
+    if (!ids.has(c.name.toLowerCase())) ids.set(c.name.toLowerCase(), c.id);
+  }
+  return ids;
+}
+
+// ─── Upload ─────────────────────────────────────────────────────
+
+export function toSaveTransactions(
+  transactions: Transaction[],
+  accountId: string,
+  options: YNABExportOptions = {},
+  categoryIds: Map<string, string> = new Map()
+): YNABSaveTransaction[] {
+  // Parsed transactions carry their import ID; derive it for any that don't
+  const ids = importIds(transactions);
+  return transactions.map((tx, i) => {
+    // Categories YNAB knows are set directly; others fall back to the memo prefix
+    const categoryId = tx.category ? categoryIds.get(tx.category.toLowerCase()) : undefined;
+    const memoOptions = categoryId ? { ...options, categoryInMemo: false } : options;
+    return {
+      account_id: accountId,
+      date: tx.date,
+      amount: toMilliunits(tx.amount),
+      payee_name: tx.payee.substring(0, MAX_PAYEE_LENGTH),
+      memo: exportMemo(tx, memoOptions).substring(0, MAX_MEMO_LENGTH),
+      ...(categoryId && { category_id: categoryId }),
+      cleared: 'cleared',
+      approved: false,
+      import_id: tx.importId ?? ids[i],
+    };
+  });
+}
+
+export async function uploadTransactions(
+  token: string,
+  budgetId: string,
+  accountId: string,
+  transactions: Transaction[],
+  options: YNABExportOptions = {},
+  categoryIds?: Map<string, string>
+): Promise<YNABUploadResult> {
+  const data = await request<{ transaction_ids: string[]; duplicate_import_ids?: string[] }>(
+    token,
+    `/budgets/${encodeURIComponent(budgetId)}/transactions`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ transactions: toSaveTransactions(transactions, accountId, options, categoryIds) }),
+    }
+  );
+  return {
+    created: data.transaction_ids.length,
+    duplicates: data.duplicate_import_ids?.length ?? 0,
+  };
+}
@@ -2,67 +2,102 @@
  * YNAB Export Utility
  * 
  * Converts parsed transactions to YNAB-compatible CSV format.
- * All fields are double-quoted. Dates use DD/MM/YYYY.
+ * By default all fields are double-quoted and dates use DD/MM/YYYY;
+ * date and number formats, quoting, line endings and a BOM follow the
+ * export settings (see ./export-settings).
  * Inflow/Outflow use "0" for the empty side (not blank).
+ * Foreign-currency card spend can be noted in the memo via a template.
+ * YNAB's CSV import has no category column, so a suggested category can
+ * be carried as a "[Category]" memo prefix instead.
  */
 
-import JSZip from 'jszip';
-import type { Transaction } from './parsers/adcb';
+import type { ParseResult, Transaction } from './parsers/adcb';
+import { DEFAULT_CSV_SETTINGS, type CSVSettings, type ExportDateFormat } from './export-settings';
 
 export type YNABFormat = 'inflow-outflow' | 'amount';
 
-function q(value: string): string {
-  // Always quote, escape inner quotes by doubling
+// Placeholders: {currency}, {amount} (original amount) and {rate} (AED per unit)
+export const DEFAULT_FX_MEMO_TEMPLATE = '{currency} {amount} @ {rate}';
+
+export interface YNABExportOptions {
+  fxMemoTemplate?: string;  // empty or omitted leaves memos untouched
+  categoryInMemo?: boolean;   // "[Category] " memo prefix, for formats without a category field
+  categories?: boolean;       // formats with a category field (QIF L, CSV columns) fill it; default true
+  csv?: CSVSettings;        // YNAB CSV only; defaults to DEFAULT_CSV_SETTINGS
+}
+
+function quote(value: string, settings: CSVSettings): string {
+  // Escape inner quotes by doubling; without quoteAll, only fields that need it are quoted
+  if (!settings.quoteAll && !/[",;\r\n]/.test(value)) return value;
   return `"${value.replace(/"/g, '""')}"`;
 }
 
-function formatDate(isoDate: string): string {
-  // DD/MM/YYYY to match the reference YNAB file
+export function formatDate(isoDate: string, format: ExportDateFormat = 'DD/MM/YYYY'): string {
+  // DD/MM/YYYY matches the reference YNAB file
   const parts = isoDate.split('-');
   if (parts.length !== 3) return isoDate;
   const [yyyy, mm, dd] = parts;
-  return `${dd}/${mm}/${yyyy}`;
+  if (format === 'YYYY-MM-DD') return `${yyyy}-${mm}-${dd}`;
+  return format === 'MM/DD/YYYY' ? `${mm}/${dd}/${yyyy}` : `${dd}/${mm}/${yyyy}`;
+}
+
+export function formatAmount(n: number, settings: CSVSettings = DEFAULT_CSV_SETTINGS): string {
+  // Positive number string
+  const fixed = Math.abs(n).toFixed(2);
+  // The reference file keeps decimals like "1.78", "0.11" but also "152250" (no decimals),
+  // so unless two decimals are asked for, strip trailing zeros after the point, then the point
+  const amount = settings.twoDecimals ? fixed : fixed.replace(/\.?0+$/, '') || '0';
+  return settings.decimalSeparator === ',' ? amount.replace('.', ',') : amount;
+}
+
+export function formatForeignMemo(tx: Transaction, template: string = DEFAULT_FX_MEMO_TEMPLATE): string {
+  if (tx.foreignAmount === undefined || !tx.foreignCurrency || !tx.fxRate) return '';
+  return template
+    .replace(/\{currency\}/g, tx.foreignCurrency)
+    .replace(/\{amount\}/g, Math.abs(tx.foreignAmount).toFixed(2))
+    .replace(/\{rate\}/g, tx.fxRate.toFixed(4));
 }
 
-function formatAmount(n: number): string {
-  // Positive number string, no trailing decimals if .00
-  const abs = Math.abs(n);
-  const fixed = abs.toFixed(2);
-  // Remove trailing .00 only if it's a whole number, but keep .10 etc.
-  // Actually the reference file keeps decimals like "1.78", "0.11" but also "152250" (no decimals)
-  // So: strip trailing zeros after decimal, then strip trailing dot
-  return fixed.replace(/\.?0+$/, '') || '0';
+export function exportMemo(tx: Transaction, options: YNABExportOptions): string {
+  const fx = options.fxMemoTemplate ? formatForeignMemo(tx, options.fxMemoTemplate) : '';
+  const memo = [tx.memo, fx].filter(Boolean).join(' · ');
+  return options.categoryInMemo && tx.category ? `[${tx.category}] ${memo}`.trim() : memo;
 }
 
 export function toYNABCSV(
   transactions: Transaction[],
-  format: YNABFormat = 'inflow-outflow'
+  format: YNABFormat = 'inflow-outflow',
+  options: YNABExportOptions = {}
 ): string {
+  const settings = options.csv ?? DEFAULT_CSV_SETTINGS;
+  const row = (cells: string[]) => cells.map(c => quote(c, settings)).join(',');
+  const zero = settings.twoDecimals ? formatAmount(0, settings) : '0';
   const lines: string[] = [];
   
   if (format === 'inflow-outflow') {
-    lines.push(`${q('Date')},${q('Payee')},${q('Memo')},${q('Outflow')},${q('Inflow')}`);
+    lines.push(row(['Date', 'Payee', 'Memo', 'Outflow', 'Inflow']));
     
     for (const tx of transactions) {
-      const date = formatDate(tx.date);
-      const outflow = tx.amount < 0 ? formatAmount(tx.amount) : '0';
-      const inflow = tx.amount > 0 ? formatAmount(tx.amount) : '0';
+      const date = formatDate(tx.date, settings.dateFormat);
+      const outflow = tx.amount < 0 ? formatAmount(tx.amount, settings) : zero;
+      const inflow = tx.amount > 0 ? formatAmount(tx.amount, settings) : zero;
       
-      lines.push(`${q(date)},${q(tx.payee)},${q(tx.memo)},${q(outflow)},${q(inflow)}`);
+      lines.push(row([date, tx.payee, exportMemo(tx, options), outflow, inflow]));
     }
   } else {
-    lines.push(`${q('Date')},${q('Payee')},${q('Memo')},${q('Amount')}`);
+    lines.push(row(['Date', 'Payee', 'Memo', 'Amount']));
     
     for (const tx of transactions) {
-      const date = formatDate(tx.date);
+      const date = formatDate(tx.date, settings.dateFormat);
       const sign = tx.amount < 0 ? '-' : '';
-      const amount = sign + formatAmount(tx.amount);
+      const amount = sign + formatAmount(tx.amount, settings);
       
-      lines.push(`${q(date)},${q(tx.payee)},${q(tx.memo)},${q(amount)}`);
+      lines.push(row([date, tx.payee, exportMemo(tx, options), amount]));
     }
   }
   
-  return lines.join('\n');
+  const content = lines.join(settings.lineEnding === 'crlf' ? '\r\n' : '\n');
+  return settings.bom ? `\uFEFF${content}` : content;
 }
 
 export function downloadCSV(csvContent: string, filename: string): void {
@@ -70,28 +105,22 @@ export function downloadCSV(csvContent: string, filename: string): void {
   downloadBlob(blob, filename);
 }
 
+// What the non-CSV formats need to know about the statement an entry came from
+export type ExportStatement = Pick<ParseResult, 'bankName' | 'statementType' | 'metadata' | 'closingBalance'>;
+
+export function isCardStatement(statement: ExportStatement): boolean {
+  const { metadata } = statement;
+  return /card/i.test(statement.statementType) || Boolean(metadata['cardNumber'] || metadata['cardLastFour']);
+}
+
 export interface FileExportEntry {
   originalFileName: string;
   transactions: Transaction[];
+  accountKey?: string;
+  statement?: ExportStatement;
 }
 
-export async function downloadZip(
-  entries: FileExportEntry[],
-  format: YNABFormat = 'inflow-outflow'
-): Promise<void> {
-  const zip = new JSZip();
-
-  for (const entry of entries) {
-    const csv = toYNABCSV(entry.transactions, format);
-    const baseName = entry.originalFileName.replace(/\.(csv|pdf|xlsx?)$/i, '');
-    zip.file(`${baseName}_ynab.csv`, csv);
-  }
-
-  const blob = await zip.generateAsync({ type: 'blob' });
-  downloadBlob(blob, 'uae2ynab_export.zip');
-}
-
-function downloadBlob(blob: Blob, filename: string): void {
+export function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
@@ -5,74 +5,448 @@
  * Flow: Upload → Parse → Review → Export
  */
 
-import { useState, useCallback } from 'react';
-import { Loader2, FileText, X, Shield, ArrowRight, Bug, Github } from 'lucide-react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { nanoid } from 'nanoid';
+import { Loader2, FileText, X, Shield, ArrowRight, Bug, Github, Wand2, Columns3 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import FileUploadZone from '@/components/FileUploadZone';
 import TransactionTable from '@/components/TransactionTable';
 import ExportPanel from '@/components/ExportPanel';
-import { parseFile, type ParseResult } from '@/lib/parsers';
+import PasswordDialog, { type PasswordSubmission } from '@/components/PasswordDialog';
+import DuplicatesPanel from '@/components/DuplicatesPanel';
+import TransfersPanel from '@/components/TransfersPanel';
+import RulesDialog from '@/components/RulesDialog';
+import ColumnMappingDialog from '@/components/ColumnMappingDialog';
+import AccountsPanel from '@/components/AccountsPanel';
+import {
+  parseWithColumnMapping,
+  PDFPasswordError,
+  type ParseProgress,
+  type ParseResult,
+  type Transaction,
+} from '@/lib/parsers';
+import {
+  loadColumnMappings,
+  MAPPED_STATEMENT_TYPE,
+  saveColumnMapping,
+  type ColumnMapping,
+} from '@/lib/parsers/column-mapping';
+import { createParsePool, ParseCancelledError, type ParsePool, type ParseTask } from '@/lib/parse-pool';
+import { reconcile } from '@/lib/reconcile';
+import { groupByAccount, type AccountGroup } from '@/lib/accounts';
+import { DEFAULT_TABLE_VIEW, isFiltered, matchesView, type TableView } from '@/lib/table-view';
+import { applyEdit, changedFields, mergeEdit, type TransactionEdit } from '@/lib/edits';
+import { learnCategory, withSuggestedCategory } from '@/lib/categories';
+import { applyRules, loadRules, saveRules, type PayeeRule } from '@/lib/rules';
+import { defaultDrops, findDuplicateGroups, memberKey } from '@/lib/duplicates';
+import {
+  asTransfer,
+  defaultAccountName,
+  findTransfers,
+  loadAccountNames,
+  saveAccountNames,
+} from '@/lib/transfers';
 
 interface FileResult {
+  id: string;
   file: File;
   result: ParseResult | null;
   loading: boolean;
+  progress: ParseProgress | null;
   error: string | null;
 }
 
+// In-flight parse of one file, so the X button can cancel it
+interface ParseControl {
+  cancelled: boolean;
+  task: ParseTask | null;
+  prompting: boolean;    // its password prompt is on screen
+}
+
+// CSV and spreadsheet files no parser recognised, or read with a column mapping, can be (re)mapped
+function canMapColumns(fr: FileResult): boolean {
+  if (fr.loading || !fr.result || !/\.(csv|xlsx?)$/i.test(fr.file.name)) return false;
+  return fr.result.bankName === 'Unknown' || fr.result.statementType === MAPPED_STATEMENT_TYPE;
+}
+
+interface PasswordPrompt {
+  fileName: string;
+  incorrectPassword: boolean;
+  showBatchOption: boolean;
+}
+
 export default function Home() {
   const [fileResults, setFileResults] = useState<FileResult[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [passwordPrompt, setPasswordPrompt] = useState<PasswordPrompt | null>(null);
+  // Keep/drop choices the user made for suspected duplicates, by member key
+  const [dropChoices, setDropChoices] = useState<Record<string, boolean>>({});
+  // Transfer pairs the user unlinked, and YNAB account names by account key
+  const [transferChoices, setTransferChoices] = useState<Record<string, boolean>>({});
+  const [accountNames, setAccountNames] = useState<Record<string, string>>(loadAccountNames);
+  const [rules, setRules] = useState<PayeeRule[]>(loadRules);
+  const [rulesOpen, setRulesOpen] = useState(false);
+  // File whose columns are being mapped in the wizard
+  const [mappingId, setMappingId] = useState<string | null>(null);
+  // Categories picked in the preview table, by member key ('' clears the suggestion)
+  const [categoryChoices, setCategoryChoices] = useState<Record<string, string>>({});
+  // Manual corrections from the review table, by member key
+  const [edits, setEdits] = useState<Record<string, TransactionEdit>>({});
+  // Sort, search and filters of each file's preview table
+  const [views, setViews] = useState<Record<string, TableView>>({});
+  // Export All: one file per account (statements merged) or one per statement
+  const [mergeAccounts, setMergeAccounts] = useState(true);
+  const passwordResolver = useRef<((submission: PasswordSubmission | null) => void) | null>(null);
+  const parsePool = useRef<ParsePool | null>(null);
+  const parseControls = useRef(new Map<string, ParseControl>());
+
+  useEffect(() => () => parsePool.current?.dispose(), []);
+
+  const requestPassword = useCallback((prompt: PasswordPrompt) => {
+    return new Promise<PasswordSubmission | null>(resolve => {
+      passwordResolver.current = resolve;
+      setPasswordPrompt(prompt);
+    });
+  }, []);
+
+  const resolvePassword = useCallback((submission: PasswordSubmission | null) => {
+    passwordResolver.current?.(submission);
+    passwordResolver.current = null;
+    setPasswordPrompt(null);
+  }, []);
 
   const handleFilesSelected = useCallback(async (files: File[]) => {
     setIsProcessing(true);
 
+    parsePool.current ??= createParsePool();
+    const pool = parsePool.current;
+
+    // Password offered for the whole batch, tried first on every encrypted PDF
+    let batchPassword: string | undefined;
+    const columnMappings = loadColumnMappings();
+
+    // Files parse concurrently, but password prompts are shown one at a time
+    let prompting: Promise<unknown> = Promise.resolve();
+    const askPassword = (file: File, err: PDFPasswordError, tried: string | undefined, control: ParseControl) => {
+      const ask = prompting.then(async (): Promise<PasswordSubmission | null> => {
+        // Another file's prompt may have supplied a batch password meanwhile
+        if (batchPassword !== undefined && batchPassword !== tried) {
+          return { password: batchPassword, applyToBatch: false };
+        }
+        if (control.cancelled) return null;
+        control.prompting = true;
+        return requestPassword({
+          fileName: file.name,
+          incorrectPassword: err.incorrectPassword,
+          showBatchOption: files.length > 1,
+        }).finally(() => { control.prompting = false; });
+      });
+      prompting = ask;
+      return ask;
+    };
+
+    const updateEntry = (id: string, patch: Partial<FileResult>) =>
+      setFileResults(prev => prev.map(fr => (fr.id === id ? { ...fr, ...patch } : fr)));
+
+    // Parse, prompting for a password until the PDF opens or the user skips it
+    const parseWithPassword = async (entry: FileResult, control: ParseControl): Promise<ParseResult> => {
+      let password = batchPassword;
+      while (true) {
+        control.task = pool.parse(entry.file, {
+          password,
+          columnMappings,
+          onProgress: progress => updateEntry(entry.id, { progress }),
+        });
+        try {
+          return await control.task.promise;
+        } catch (err) {
+          if (!(err instanceof PDFPasswordError) || control.cancelled) throw err;
+          const submission = await askPassword(entry.file, err, password, control);
+          if (control.cancelled) throw new ParseCancelledError(entry.file.name);
+          if (!submission) throw new Error('Password protected PDF skipped');
+          password = submission.password;
+          if (submission.applyToBatch) batchPassword = submission.password;
+        }
+      }
+    };
+
     // Add files with loading state
     const newEntries: FileResult[] = files.map(f => ({
+      id: nanoid(),
       file: f,
       result: null,
       loading: true,
+      progress: null,
       error: null,
     }));
 
     setFileResults(prev => [...prev, ...newEntries]);
 
-    // Parse each file
-    for (let i = 0; i < files.length; i++) {
+    await Promise.all(newEntries.map(async entry => {
+      const control: ParseControl = { cancelled: false, task: null, prompting: false };
+      parseControls.current.set(entry.id, control);
       try {
-        const result = await parseFile(files[i]);
-        setFileResults(prev =>
-          prev.map(fr =>
-            fr.file === files[i]
-              ? { ...fr, result, loading: false, error: result.errors.length > 0 ? result.errors.join('; ') : null }
-              : fr
-          )
-        );
+        const result = await parseWithPassword(entry, control);
+        updateEntry(entry.id, {
+          result,
+          loading: false,
+          error: result.errors.length > 0 ? result.errors.join('; ') : null,
+        });
       } catch (err: any) {
-        setFileResults(prev =>
-          prev.map(fr =>
-            fr.file === files[i]
-              ? { ...fr, loading: false, error: err.message || 'Failed to parse file' }
-              : fr
-          )
-        );
+        // Cancelled files were already removed from the list
+        if (!(err instanceof ParseCancelledError)) {
+          updateEntry(entry.id, { loading: false, error: err.message || 'Failed to parse file' });
+        }
+      } finally {
+        parseControls.current.delete(entry.id);
       }
-    }
+    }));
 
     setIsProcessing(false);
-  }, []);
+  }, [requestPassword]);
+
+  // Development only: ?fixture=<rows> loads a synthetic statement to check table performance
+  useEffect(() => {
+    if (!import.meta.env.DEV) return;
+    const rows = Number(new URLSearchParams(window.location.search).get('fixture'));
+    if (!rows) return;
+    import('@/lib/fixtures/large-statement').then(({ largeStatementFile }) => {
+      handleFilesSelected([largeStatementFile(rows)]);
+    });
+  }, [handleFilesSelected]);
 
-  const removeFile = useCallback((file: File) => {
-    setFileResults(prev => prev.filter(fr => fr.file !== file));
+  const cancelParse = (id: string) => {
+    const control = parseControls.current.get(id);
+    if (!control) return;
+    control.cancelled = true;
+    control.task?.cancel();
+    if (control.prompting) resolvePassword(null);
+  };
+
+  const removeFile = useCallback((id: string) => {
+    cancelParse(id);
+    setFileResults(prev => prev.filter(fr => fr.id !== id));
   }, []);
 
   const clearAll = useCallback(() => {
+    parseControls.current.forEach((_, id) => cancelParse(id));
     setFileResults([]);
+    setDropChoices({});
+    setTransferChoices({});
+    setCategoryChoices({});
+    setEdits({});
+    setViews({});
+  }, []);
+
+  const applyColumnMapping = useCallback(async (mapping: ColumnMapping, headers: string[], remember: boolean) => {
+    const fr = fileResults.find(f => f.id === mappingId);
+    setMappingId(null);
+    if (!fr) return;
+    if (remember) saveColumnMapping(headers, mapping);
+    try {
+      const result = await parseWithColumnMapping(fr.file, mapping);
+      // A fresh id, so edits and choices made on the old rows don't carry over
+      setFileResults(prev => prev.map(f => (f.id === fr.id ? {
+        ...f,
+        id: nanoid(),
+        result,
+        error: result.errors.length > 0 ? result.errors.join('; ') : null,
+      } : f)));
+    } catch (err: any) {
+      setFileResults(prev => prev.map(f => (f.id === fr.id ? { ...f, error: err.message || 'Failed to read file' } : f)));
+    }
+  }, [fileResults, mappingId]);
+
+  const renameAccount = useCallback((accountKey: string, name: string) => {
+    setAccountNames(prev => {
+      const next = { ...prev, [accountKey]: name };
+      saveAccountNames(next);
+      return next;
+    });
+  }, []);
+
+  const updateRules = useCallback((next: PayeeRule[]) => {
+    setRules(next);
+    saveRules(next);
   }, []);
 
   const successfulFiles = fileResults.filter(fr => fr.result && fr.result.transactions.length > 0);
-  const totalTransactions = successfulFiles.reduce((sum, fr) => sum + fr.result!.transactions.length, 0);
+
+  // Payee rules run first; everything downstream sees the rewritten transactions
+  const ruled = useMemo(() => {
+    const byId = new Map<string, { result: ParseResult; skipped: Set<number> }>();
+    for (const fr of fileResults) {
+      if (!fr.result || fr.result.transactions.length === 0) continue;
+      const { transactions, skipped } = applyRules(fr.result.transactions, fr.result.bankName, rules);
+      byId.set(fr.id, { result: { ...fr.result, transactions }, skipped });
+    }
+    return byId;
+  }, [fileResults, rules]);
+
+  // Manual edits apply on top of the rules; deleted rows are excluded like skipped ones
+  const reviewed = useMemo(() => {
+    const byId = new Map<string, { result: ParseResult; skipped: Set<number>; deleted: Set<number>; originals: Map<number, Transaction> }>();
+    ruled.forEach(({ result, skipped }, id) => {
+      const deleted = new Set<number>();
+      const originals = new Map<number, Transaction>();
+      const transactions = result.transactions.map((tx, i) => {
+        const edit = edits[memberKey(id, i)];
+        if (edit?.deleted) deleted.add(i);
+        if (changedFields(tx, edit).length > 0) originals.set(i, tx);
+        return applyEdit(tx, edit);
+      });
+      byId.set(id, { result: { ...result, transactions }, skipped, deleted, originals });
+    });
+    return byId;
+  }, [ruled, edits]);
+
+  const duplicateGroups = useMemo(
+    () => findDuplicateGroups(
+      fileResults
+        .filter(fr => reviewed.has(fr.id))
+        .map(fr => ({ id: fr.id, fileName: fr.file.name, result: reviewed.get(fr.id)!.result }))
+    ),
+    [fileResults, reviewed]
+  );
+  const suggestedDrops = useMemo(() => defaultDrops(duplicateGroups), [duplicateGroups]);
+  const isDropped = useCallback(
+    (key: string) => dropChoices[key] ?? suggestedDrops.has(key),
+    [dropChoices, suggestedDrops]
+  );
+
+  const transferPairs = useMemo(
+    () => findTransfers(
+      fileResults
+        .filter(fr => reviewed.has(fr.id))
+        .map(fr => {
+          const { skipped, deleted } = reviewed.get(fr.id)!;
+          return {
+            id: fr.id,
+            result: reviewed.get(fr.id)!.result,
+            isExcluded: (i: number) => skipped.has(i) || deleted.has(i) || isDropped(memberKey(fr.id, i)),
+          };
+        })
+    ),
+    [fileResults, reviewed, isDropped]
+  );
+  // Pairs without transfer wording may be a coincidence: listed, but unlinked until the user ticks them
+  const hintedTransfers = useMemo(
+    () => new Set(transferPairs.filter(pair => pair.hinted).map(pair => pair.key)),
+    [transferPairs]
+  );
+  const isTransferLinked = useCallback(
+    (key: string) => transferChoices[key] ?? hintedTransfers.has(key),
+    [transferChoices, hintedTransfers]
+  );
+
+  const resultById = useMemo(
+    () => new Map(Array.from(reviewed.entries(), ([id, { result }]) => [id, result])),
+    [reviewed]
+  );
+  const accountNameOf = useCallback((sourceId: string) => {
+    const result = resultById.get(sourceId);
+    if (!result) return '';
+    return accountNames[result.accountKey ?? ''] || defaultAccountName(result);
+  }, [resultById, accountNames]);
+
+  // Both sides of a linked transfer name the account on the other side
+  const transferPartners = useMemo(() => {
+    const partners = new Map<string, string>();
+    for (const pair of transferPairs) {
+      if (!isTransferLinked(pair.key)) continue;
+      partners.set(memberKey(pair.from.sourceId, pair.from.index), pair.to.sourceId);
+      partners.set(memberKey(pair.to.sourceId, pair.to.index), pair.from.sourceId);
+    }
+    return partners;
+  }, [transferPairs, isTransferLinked]);
+
+  const transferAccounts = Array.from(
+    new Set(transferPairs.flatMap(p => [p.from.sourceId, p.to.sourceId]))
+  ).reduce((accounts, id) => {
+    const result = resultById.get(id)!;
+    const fileName = successfulFiles.find(fr => fr.id === id)!.file.name;
+    const existing = accounts.find(a => a.accountKey === result.accountKey);
+    if (existing) existing.fileNames.push(fileName);
+    else accounts.push({ accountKey: result.accountKey ?? '', name: accountNameOf(id), fileNames: [fileName] });
+    return accounts;
+  }, [] as { accountKey: string; name: string; fileNames: string[] }[]);
+
+  // Preview: rules, edits, categories and transfer payees applied; exports
+  // additionally leave out dropped duplicates and skipped or deleted rows.
+  // Computed once per change to those inputs, not on every render, so
+  // typing in a table's search box doesn't re-run the whole pipeline
+  const previewById = useMemo(() => {
+    const byId = new Map<string, Transaction[]>();
+    resultById.forEach((result, id) => {
+      byId.set(id, result.transactions.map((tx, i) => {
+        const key = memberKey(id, i);
+        const choice = categoryChoices[key];
+        const categorised = choice !== undefined ? { ...tx, category: choice || undefined } : withSuggestedCategory(tx);
+        const partner = transferPartners.get(key);
+        return partner ? asTransfer(categorised, accountNameOf(partner), resultById.get(partner)!) : categorised;
+      }));
+    });
+    return byId;
+  }, [resultById, categoryChoices, transferPartners, accountNameOf]);
+
+  const droppedById = useMemo(() => {
+    const byId = new Map<string, Set<number>>();
+    resultById.forEach((result, id) => {
+      byId.set(id, new Set(result.transactions.flatMap((_, i) => (isDropped(memberKey(id, i)) ? [i] : []))));
+    });
+    return byId;
+  }, [resultById, isDropped]);
+
+  const keptById = useMemo(() => {
+    const byId = new Map<string, Transaction[]>();
+    previewById.forEach((transactions, id) => {
+      const { skipped, deleted } = reviewed.get(id)!;
+      const dropped = droppedById.get(id)!;
+      byId.set(id, transactions.filter((_, i) => !dropped.has(i) && !skipped.has(i) && !deleted.has(i)));
+    });
+    return byId;
+  }, [previewById, droppedById, reviewed]);
+
+  const reconciliationById = useMemo(
+    () => new Map(fileResults.flatMap(fr => (fr.result ? [[fr.id, reconcile(fr.result)] as const] : []))),
+    [fileResults]
+  );
+
+  const previewTransactions = (fr: FileResult) => previewById.get(fr.id)!;
+  const keptTransactions = (fr: FileResult, view?: TableView) => {
+    const kept = keptById.get(fr.id)!;
+    return view ? kept.filter(tx => matchesView(tx, view)) : kept;
+  };
+  const viewOf = (fr: FileResult) => views[fr.id] ?? DEFAULT_TABLE_VIEW;
+  const droppedRows = (fr: FileResult) => droppedById.get(fr.id)!;
+
+  const chooseCategory = (fr: FileResult, index: number, category: string) => {
+    learnCategory(resultById.get(fr.id)!.transactions[index].payee, category);
+    setCategoryChoices(prev => ({ ...prev, [memberKey(fr.id, index)]: category }));
+  };
+
+  const editTransaction = (fr: FileResult, index: number, change: TransactionEdit) => {
+    const parsed = ruled.get(fr.id)!.result.transactions[index];
+    const key = memberKey(fr.id, index);
+    setEdits(prev => ({ ...prev, [key]: mergeEdit(parsed, prev[key], change) }));
+  };
+
+  const totalTransactions = successfulFiles.reduce((sum, fr) => sum + keptTransactions(fr).length, 0);
+
+  // Account view: statements of the same account merged into one timeline
+  const accountGroups = useMemo(
+    () => groupByAccount(fileResults.filter(fr => keptById.has(fr.id)).map(fr => ({
+      id: fr.id,
+      fileName: fr.file.name,
+      result: fr.result!,
+      transactions: keptById.get(fr.id)!,
+    }))),
+    [fileResults, keptById]
+  );
+  const hasMultiStatementAccount = accountGroups.some(g => g.sources.length > 1);
+  const exportPerAccount = mergeAccounts && hasMultiStatementAccount;
+  const groupName = (group: AccountGroup) => accountNameOf(group.sources[group.sources.length - 1].id);
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -108,12 +482,33 @@ export default function Home() {
           {/* Upload section */}
           <section>
             <div className="mb-4">
-              <h2 className="text-lg font-semibold">Upload Statements</h2>
+              <div className="flex items-center justify-between gap-3">
+                <h2 className="text-lg font-semibold">Upload Statements</h2>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRulesOpen(true)}
+                  className="text-xs text-muted-foreground h-7 gap-1.5"
+                >
+                  <Wand2 className="w-3.5 h-3.5" />
+                  Payee rules{rules.length > 0 && ` (${rules.length})`}
+                </Button>
+              </div>
               <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-x-6 gap-y-1.5">
                 {[
                   { bank: 'ADCB', types: 'Account & Credit Card', format: 'CSV' },
+                  { bank: 'Dubai Islamic Bank', types: 'Account & Covered Card', format: 'PDF / CSV / XLSX' },
+                  { bank: 'Emirates Islamic', types: 'Account & Covered Card', format: 'PDF / CSV / XLSX' },
                   { bank: 'Emirates NBD', types: 'Account & Credit Card', format: 'PDF / XLSX' },
+                  { bank: 'FAB', types: 'Account & Credit Card', format: 'PDF / CSV / XLSX' },
                   { bank: 'Mashreq', types: 'Account & Credit Card', format: 'XLSX' },
+                  { bank: 'RAKBANK', types: 'Account & Credit Card', format: 'PDF' },
+                  { bank: 'CBD', types: 'Account & Credit Card', format: 'PDF' },
+                  { bank: 'HSBC UAE', types: 'Account & Credit Card', format: 'PDF' },
+                  { bank: 'Wio', types: 'Personal & Business', format: 'PDF / CSV' },
+                  { bank: 'Liv.', types: 'Account', format: 'PDF / CSV' },
+                  { bank: 'Zand', types: 'Account', format: 'PDF / CSV' },
+                  { bank: 'Mashreq Neo', types: 'Account', format: 'PDF / CSV' },
                 ].map(({ bank, types, format }) => (
                   <div key={bank} className="flex items-baseline gap-2 text-sm">
                     <span className="font-medium">{bank}</span>
@@ -154,7 +549,7 @@ export default function Home() {
                 <div className="space-y-2">
                   {fileResults.map((fr, i) => (
                     <motion.div
-                      key={`${fr.file.name}-${i}`}
+                      key={fr.id}
                       initial={{ opacity: 0, x: -8 }}
                       animate={{ opacity: 1, x: 0 }}
                       transition={{ delay: i * 0.05 }}
@@ -165,7 +560,13 @@ export default function Home() {
                       <div className="flex-1 min-w-0">
                         <p className="text-sm font-medium truncate">{fr.file.name}</p>
                         <p className="text-xs text-muted-foreground font-mono">
-                          {fr.loading && 'Parsing...'}
+                          {fr.loading && (
+                            <>
+                              Parsing...
+                              {fr.progress?.stage === 'pages' && ` page ${fr.progress.done} of ${fr.progress.total}`}
+                              {fr.progress?.stage === 'rows' && ` ${fr.progress.total.toLocaleString('en-AE')} rows`}
+                            </>
+                          )}
                           {fr.result && !fr.error && (
                             <>
                               {fr.result.bankName} &middot; {fr.result.statementType} &middot;{' '}
@@ -184,16 +585,25 @@ export default function Home() {
                         </p>
                       </div>
 
-                      {fr.loading ? (
-                        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
-                      ) : (
-                        <button
-                          onClick={() => removeFile(fr.file)}
-                          className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+                      {canMapColumns(fr) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setMappingId(fr.id)}
+                          className="h-7 gap-1.5 text-xs text-muted-foreground"
                         >
-                          <X className="w-3.5 h-3.5" />
-                        </button>
+                          <Columns3 className="w-3.5 h-3.5" />
+                          {fr.result!.bankName === 'Unknown' ? 'Map columns' : 'Remap'}
+                        </Button>
                       )}
+                      {fr.loading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+                      <button
+                        onClick={() => removeFile(fr.id)}
+                        title={fr.loading ? 'Cancel' : 'Remove'}
+                        className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
                     </motion.div>
                   ))}
                 </div>
@@ -201,6 +611,52 @@ export default function Home() {
             )}
           </AnimatePresence>
 
+          {/* Transactions found in more than one file */}
+          {duplicateGroups.length > 0 && (
+            <motion.section
+              initial={{ opacity: 0, y: 8 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-card border border-border rounded-lg p-4 sm:p-6"
+            >
+              <DuplicatesPanel
+                groups={duplicateGroups}
+                getTransaction={(id, index) => resultById.get(id)?.transactions[index]}
+                isDropped={isDropped}
+                onChange={(key, dropped) => setDropChoices(prev => ({ ...prev, [key]: dropped }))}
+              />
+            </motion.section>
+          )}
+
+          {/* Outflows matched to inflows on another statement */}
+          {transferPairs.length > 0 && (
+            <motion.section
+              initial={{ opacity: 0, y: 8 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-card border border-border rounded-lg p-4 sm:p-6"
+            >
+              <TransfersPanel
+                pairs={transferPairs}
+                accounts={transferAccounts}
+                getTransaction={(id, index) => resultById.get(id)?.transactions[index]}
+                getAccountName={accountNameOf}
+                isAccepted={isTransferLinked}
+                onAcceptedChange={(key, linked) => setTransferChoices(prev => ({ ...prev, [key]: linked }))}
+                onAccountNameChange={renameAccount}
+              />
+            </motion.section>
+          )}
+
+          {/* Statements grouped by account, with balance continuity */}
+          {hasMultiStatementAccount && (
+            <motion.section
+              initial={{ opacity: 0, y: 8 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-card border border-border rounded-lg p-4 sm:p-6"
+            >
+              <AccountsPanel groups={accountGroups} getAccountName={groupName} />
+            </motion.section>
+          )}
+
           {/* Transaction preview per file */}
           {successfulFiles.map((fr, i) => (
             <motion.section
@@ -213,9 +669,19 @@ export default function Home() {
               <div className="flex items-start justify-between gap-4 flex-wrap">
                 <div className="flex-1 min-w-0">
                   <TransactionTable
-                    transactions={fr.result!.transactions}
+                    transactions={previewTransactions(fr)}
                     bankName={fr.result!.bankName}
                     statementType={fr.result!.statementType}
+                    reconciliation={reconciliationById.get(fr.id)}
+                    accountKey={fr.result!.accountKey}
+                    droppedRows={droppedRows(fr)}
+                    skippedRows={reviewed.get(fr.id)!.skipped}
+                    deletedRows={reviewed.get(fr.id)!.deleted}
+                    editedRows={reviewed.get(fr.id)!.originals}
+                    onEdit={(index, change) => editTransaction(fr, index, change)}
+                    view={viewOf(fr)}
+                    onViewChange={view => setViews(prev => ({ ...prev, [fr.id]: view }))}
+                    onCategoryChange={(index, category) => chooseCategory(fr, index, category)}
                   />
                 </div>
               </div>
@@ -224,8 +690,11 @@ export default function Home() {
               <div className="border-t border-dashed border-border pt-4">
                 <ExportPanel
                   mode="single"
-                  transactions={fr.result!.transactions}
+                  transactions={keptTransactions(fr)}
+                  filteredTransactions={isFiltered(viewOf(fr)) ? keptTransactions(fr, viewOf(fr)) : undefined}
                   fileName={fr.file.name}
+                  accountKey={fr.result!.accountKey}
+                  statement={fr.result!}
                 />
               </div>
             </motion.section>
@@ -242,15 +711,41 @@ export default function Home() {
                 <div>
                   <h3 className="text-sm font-semibold">Export All as ZIP</h3>
                   <p className="text-xs opacity-70 font-mono mt-0.5">
-                    {totalTransactions} transactions from {successfulFiles.length} files &middot; one CSV per file
+                    {exportPerAccount
+                      ? <>{accountGroups.reduce((sum, g) => sum + g.transactions.length, 0)} transactions from {accountGroups.length} accounts &middot; one file per account</>
+                      : <>{totalTransactions} transactions from {successfulFiles.length} files &middot; one file per statement</>}
                   </p>
+                  {hasMultiStatementAccount && (
+                    <div className="flex items-center gap-0.5 bg-parchment/10 rounded-md p-0.5 mt-2 w-fit">
+                      {([true, false] as const).map(merge => (
+                        <button
+                          key={String(merge)}
+                          onClick={() => setMergeAccounts(merge)}
+                          className={`px-2 py-0.5 text-xs font-medium rounded transition-colors ${
+                            merge === mergeAccounts ? 'bg-parchment text-navy' : 'opacity-70 hover:opacity-100'
+                          }`}
+                        >
+                          {merge ? 'Per account' : 'Per statement'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
                 <ExportPanel
                   mode="multi"
-                  entries={successfulFiles.map(fr => ({
-                    originalFileName: fr.file.name,
-                    transactions: fr.result!.transactions,
-                  }))}
+                  entries={exportPerAccount
+                    ? accountGroups.map(group => ({
+                      originalFileName: groupName(group).replace(/[\\/:*?"<>|]/g, '-'),
+                      transactions: group.transactions,
+                      accountKey: group.accountKey,
+                      statement: group.statement,
+                    }))
+                    : successfulFiles.map(fr => ({
+                      originalFileName: fr.file.name,
+                      transactions: keptTransactions(fr),
+                      accountKey: fr.result!.accountKey,
+                      statement: fr.result!,
+                    }))}
                 />
               </div>
             </motion.section>
@@ -258,11 +753,33 @@ export default function Home() {
         </div>
       </main>
 
+      <RulesDialog
+        open={rulesOpen}
+        onOpenChange={setRulesOpen}
+        rules={rules}
+        onChange={updateRules}
+      />
+
+      <ColumnMappingDialog
+        file={fileResults.find(fr => fr.id === mappingId)?.file ?? null}
+        onOpenChange={open => { if (!open) setMappingId(null); }}
+        onApply={applyColumnMapping}
+      />
+
+      <PasswordDialog
+        open={passwordPrompt !== null}
+        fileName={passwordPrompt?.fileName ?? ''}
+        incorrectPassword={passwordPrompt?.incorrectPassword ?? false}
+        showBatchOption={passwordPrompt?.showBatchOption ?? false}
+        onSubmit={resolvePassword}
+        onSkip={() => resolvePassword(null)}
+      />
+
       {/* Footer */}
       <footer className="border-t border-border py-4">
         <div className="container flex items-center justify-between">
           <p className="text-xs text-muted-foreground font-mono">
-            Your data never leaves your browser. No server, no tracking, no storage.
+            Statements never leave your browser. Settings stay in local storage; only YNAB uploads reach api.ynab.com.
           </p>
           <div className="flex items-center gap-3">
             <a
@@ -0,0 +1,183 @@
+/**
+ * Local mock of the YNAB API
+ *
+ * Implements just enough of https://api.ynab.com/v1 to exercise the
+ * direct-upload flow without touching a real budget:
+ *   GET  /v1/budgets
+ *   GET  /v1/budgets/:budgetId/accounts
+ *   GET  /v1/budgets/:budgetId/categories
+ *   GET  /v1/budgets/:budgetId/transactions
+ *   POST /v1/budgets/:budgetId/transactions   (import_id dedup per account)
+ *
+ * Run with `pnpm mock:ynab`, then start the app with
+ * VITE_YNAB_API_URL=http://localhost:3001/v1 and use the token "mock-token".
+ * State is kept in memory and reset on restart.
+ */
+
+import express from "express";
+import { randomUUID } from "crypto";
+
+const TOKEN = process.env.YNAB_MOCK_TOKEN || "mock-token";
+const PORT = process.env.YNAB_MOCK_PORT || 3001;
+
+interface MockTransaction {
+  id: string;
+  account_id: string;
+  date: string;
+  amount: number;
+  payee_name: string | null;
+  memo: string | null;
+  category_id: string | null;
+  cleared: string;
+  approved: boolean;
+  import_id: string | null;
+}
+
+const budgets = [{ id: "mock-budget", name: "Mock Budget" }];
+
+const accounts = [
+  { id: "mock-enbd-current", name: "ENBD Current", type: "checking", closed: false, deleted: false },
+  { id: "mock-enbd-card", name: "ENBD Credit Card", type: "creditCard", closed: false, deleted: false },
+  { id: "mock-mashreq-savings", name: "Mashreq Savings", type: "savings", closed: false, deleted: false },
+  { id: "mock-old-account", name: "Closed Account", type: "checking", closed: true, deleted: false },
+];
+
+const categoryGroups = [
+  {
+    id: "mock-group-bills",
+    name: "Bills",
+    hidden: false,
+    deleted: false,
+    categories: [
+      { id: "mock-cat-utilities", name: "Utilities", hidden: false, deleted: false },
+      { id: "mock-cat-phone", name: "Phone & Internet", hidden: false, deleted: false },
+    ],
+  },
+  {
+    id: "mock-group-everyday",
+    name: "Everyday",
+    hidden: false,
+    deleted: false,
+    categories: [
+      { id: "mock-cat-groceries", name: "Groceries", hidden: false, deleted: false },
+      { id: "mock-cat-fuel", name: "Fuel", hidden: false, deleted: false },
+      { id: "mock-cat-transport", name: "Transport", hidden: false, deleted: false },
+      { id: "mock-cat-dining", name: "Dining Out", hidden: true, deleted: false },
+    ],
+  },
+];
+
+const transactions: MockTransaction[] = [];
+
+function error(res: express.Response, status: number, name: string, detail: string) {
+  res.status(status).json({ error: { id: String(status), name, detail } });
+}
+
+const app = express();
+app.use(express.json({ limit: "10mb" }));
+
+// The app calls the API from the browser, so allow any origin
+app.use((req, res, next) => {
+  res.header("Access-Control-Allow-Origin", "*");
+  res.header("Access-Control-Allow-Headers", "Authorization, Content-Type");
+  res.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  if (req.method === "OPTIONS") {
+    res.sendStatus(204);
+    return;
+  }
+  next();
+});
+
+app.use("/v1", (req, res, next) => {
+  if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+    error(res, 401, "unauthorized", "Unauthorized");
+    return;
+  }
+  next();
+});
+
+app.use("/v1/budgets/:budgetId", (req, res, next) => {
+  if (!budgets.some(b => b.id === req.params.budgetId)) {
+    error(res, 404, "resource_not_found", "Budget not found");
+    return;
+  }
+  next();
+});
+
+app.get("/v1/budgets", (_req, res) => {
+  res.json({ data: { budgets } });
+});
+
+app.get("/v1/budgets/:budgetId/accounts", (_req, res) => {
+  res.json({ data: { accounts } });
+});
+
+app.get("/v1/budgets/:budgetId/categories", (_req, res) => {
+  res.json({ data: { category_groups: categoryGroups } });
+});
+
+app.get("/v1/budgets/:budgetId/transactions", (_req, res) => {
+  res.json({ data: { transactions } });
+});
+
+app.post("/v1/budgets/:budgetId/transactions", (req, res) => {
+  const incoming: Partial<MockTransaction>[] = req.body?.transactions ?? (req.body?.transaction ? [req.body.transaction] : []);
+  if (incoming.length === 0) {
+    error(res, 400, "bad_request", "transactions is required");
+    return;
+  }
+
+  const created: MockTransaction[] = [];
+  const duplicateImportIds: string[] = [];
+
+  for (const tx of incoming) {
+    if (!tx.account_id || !accounts.some(a => a.id === tx.account_id)) {
+      error(res, 400, "bad_request", `account_id ${tx.account_id} not found`);
+      return;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(tx.date ?? "") || !Number.isInteger(tx.amount)) {
+      error(res, 400, "bad_request", "date must be YYYY-MM-DD and amount in milliunits");
+      return;
+    }
+
+    const categoryId = tx.category_id ?? null;
+    if (categoryId && !categoryGroups.some(g => g.categories.some(c => c.id === categoryId))) {
+      error(res, 400, "bad_request", `category_id ${categoryId} not found`);
+      return;
+    }
+
+    // YNAB ignores a transaction whose import_id already exists on the same account
+    const importId = tx.import_id ?? null;
+    if (importId && transactions.some(t => t.account_id === tx.account_id && t.import_id === importId)) {
+      duplicateImportIds.push(importId);
+      continue;
+    }
+
+    const saved: MockTransaction = {
+      id: randomUUID(),
+      account_id: tx.account_id,
+      date: tx.date!,
+      amount: tx.amount!,
+      payee_name: tx.payee_name ?? null,
+      memo: tx.memo ?? null,
+      category_id: categoryId,
+      cleared: tx.cleared ?? "uncleared",
+      approved: tx.approved ?? false,
+      import_id: importId,
+    };
+    transactions.push(saved);
+    created.push(saved);
+  }
+
+  res.status(201).json({
+    data: {
+      transaction_ids: created.map(t => t.id),
+      transactions: created,
+      duplicate_import_ids: duplicateImportIds,
+    },
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock YNAB API running on http://localhost:${PORT}/v1 (token: ${TOKEN})`);
+});
@@ -168,6 +168,10 @@ export default defineConfig({
     outDir: path.resolve(import.meta.dirname, "dist/public"),
     emptyOutDir: true,
   },
+  worker: {
+    // The parse worker code-splits (pdf.js, SheetJS), which needs ES module workers
+    format: "es",
+  },
   server: {
     port: 3000,
     strictPort: false, // Will find next available port if 3000 is busy